@@ -0,0 +1,37 @@
+import React from 'react';
+import type { CalloutType } from '../lib/blocks';
+
+interface CalloutProps {
+  type: CalloutType;
+  // Collapsible callouts are compiled to <details>, with the title as summary
+  collapsible?: boolean;
+  open?: boolean;
+  children?: React.ReactNode;
+}
+
+const CALLOUT_STYLES: Record<CalloutType, string> = {
+  note: 'border-blue-500 bg-blue-500/10 [&_.callout-title]:text-blue-600',
+  tip: 'border-green-500 bg-green-500/10 [&_.callout-title]:text-green-600',
+  important: 'border-purple-500 bg-purple-500/10 [&_.callout-title]:text-purple-600',
+  warning: 'border-amber-500 bg-amber-500/10 [&_.callout-title]:text-amber-600',
+  caution: 'border-red-500 bg-red-500/10 [&_.callout-title]:text-red-600'
+};
+
+// A > [!type] callout (see lib/blocks.ts)
+export default function Callout({ type, collapsible, open, children }: CalloutProps) {
+  const classes = `callout my-6 px-5 py-1 border-l-4 rounded-r-lg ${CALLOUT_STYLES[type]}`;
+
+  if (collapsible) {
+    return (
+      <details open={open} className={classes}>
+        {children}
+      </details>
+    );
+  }
+
+  return (
+    <aside className={classes}>
+      {children}
+    </aside>
+  );
+}
@@ -0,0 +1,43 @@
+import React, { useRef, useState } from 'react';
+
+type CodeBlockProps = React.HTMLAttributes<HTMLPreElement> & {
+  'data-language'?: string;
+};
+
+// A highlighted code block (see lib/codeBlocks.ts) with its language and a
+// button to copy the code
+export default function CodeBlock({ children, ...props }: CodeBlockProps) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const language = props['data-language'];
+
+  const copyCode = async () => {
+    // textContent leaves out the line numbers, which are drawn by CSS
+    const code = preRef.current?.querySelector('code')?.textContent ?? '';
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      prompt('Copy this code:', code);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="not-prose absolute right-2 top-2 flex items-center gap-2 text-xs text-gray-500">
+        {language && <span className="font-mono">{language}</span>}
+        <button
+          type="button"
+          onClick={copyCode}
+          className="px-2 py-0.5 rounded border border-gray-400/50 hover:text-gray-700"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre ref={preRef} {...props}>
+        {children}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState, useMemo } from 'react';
+import { diffLines, mergeWithConflictMarkers, toSideBySide, DiffLine } from '../lib/diff';
+
+interface ConflictDialogProps {
+  localMarkdown: string;
+  serverMarkdown: string;
+  serverUpdatedAt: string;
+  onOverwrite: () => void;
+  onDiscard: () => void;
+  onMerge: (mergedMarkdown: string) => void;
+  onCancel: () => void;
+}
+
+const lineClasses: Record<DiffLine['type'], string> = {
+  same: 'text-gray-700',
+  added: 'bg-green-50 text-green-900',
+  removed: 'bg-red-50 text-red-900'
+};
+
+export default function ConflictDialog({
+  localMarkdown,
+  serverMarkdown,
+  serverUpdatedAt,
+  onOverwrite,
+  onDiscard,
+  onMerge,
+  onCancel
+}: ConflictDialogProps) {
+  const [mergedMarkdown, setMergedMarkdown] = useState<string | null>(null);
+
+  // Saved version on the left, the editor's version on the right
+  const rows = useMemo(
+    () => toSideBySide(diffLines(serverMarkdown, localMarkdown)),
+    [serverMarkdown, localMarkdown]
+  );
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black bg-opacity-40 flex items-center justify-center p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl h-[80vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">This page was changed somewhere else</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Someone saved a newer version at {new Date(serverUpdatedAt).toLocaleString()} while you were editing.
+            Choose how to continue.
+          </p>
+        </div>
+
+        {mergedMarkdown === null ? (
+          <div className="flex-1 overflow-auto">
+            <div className="grid grid-cols-2 text-xs font-medium text-gray-500 border-b border-gray-100 sticky top-0 bg-white">
+              <div className="px-4 py-2 border-r border-gray-100">Saved version</div>
+              <div className="px-4 py-2">Your version</div>
+            </div>
+            <div className="grid grid-cols-2 text-xs font-mono">
+              {rows.map((row, index) => (
+                <React.Fragment key={index}>
+                  <div className={`px-4 whitespace-pre-wrap border-r border-gray-100 ${row.left ? lineClasses[row.left.type] : 'bg-gray-50'}`}>
+                    {row.left?.text ?? ''}
+                  </div>
+                  <div className={`px-4 whitespace-pre-wrap ${row.right ? lineClasses[row.right.type] : 'bg-gray-50'}`}>
+                    {row.right?.text ?? ''}
+                  </div>
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col p-4 min-h-0">
+            <p className="text-xs text-gray-500 mb-2">
+              Resolve the sections between <span className="font-mono">&lt;&lt;&lt;&lt;&lt;&lt;&lt;</span> and{' '}
+              <span className="font-mono">&gt;&gt;&gt;&gt;&gt;&gt;&gt;</span>, then continue editing and publish again.
+            </p>
+            <textarea
+              value={mergedMarkdown}
+              onChange={(e) => setMergedMarkdown(e.target.value)}
+              className="flex-1 w-full p-4 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none font-mono text-sm"
+            />
+          </div>
+        )}
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <div className="flex items-center space-x-2">
+            {mergedMarkdown === null ? (
+              <>
+                <button
+                  onClick={onDiscard}
+                  className="px-3 py-1.5 text-sm bg-white text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                >
+                  Discard my changes
+                </button>
+                <button
+                  onClick={() => setMergedMarkdown(mergeWithConflictMarkers(serverMarkdown, localMarkdown))}
+                  className="px-3 py-1.5 text-sm bg-white text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                >
+                  Merge
+                </button>
+                <button
+                  onClick={onOverwrite}
+                  className="px-3 py-1.5 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                >
+                  Overwrite with mine
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => setMergedMarkdown(null)}
+                  className="px-3 py-1.5 text-sm bg-white text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={() => onMerge(mergedMarkdown)}
+                  className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                >
+                  Use merged version
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { supabase } from '../contexts/AuthContext';
+import StrippedContentNotice from './StrippedContentNotice';
+import { sanitizeCss } from '../lib/customCss';
+import { MAX_CSS_LENGTH } from '../lib/frontmatter';
+
+interface CustomCssDialogProps {
+  initialCss: string;
+  onSaved: (css: string) => void;
+  onClose: () => void;
+}
+
+// The stylesheet added to all of a user's pages, before each page's own `css`
+export default function CustomCssDialog({ initialCss, onSaved, onClose }: CustomCssDialogProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [css, setCss] = useState(initialCss);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Checked as you type, with the same sanitizer the published pages use
+  const { stripped } = useMemo(() => sanitizeCss(css), [css]);
+
+  const selectLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const lines = css.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+  };
+
+  const saveCss = async () => {
+    setIsSaving(true);
+    try {
+      const session = await supabase.auth.getSession();
+      const token = session.data.session?.access_token;
+
+      if (!token) {
+        alert('Authentication required');
+        return;
+      }
+
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ customCss: css.trim() ? css : null })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        onSaved(data.profile.custom_css ?? '');
+        onClose();
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || 'Failed to save custom CSS');
+      }
+    } catch (error) {
+      console.error('Error saving custom CSS:', error);
+      alert('Failed to save custom CSS');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black bg-opacity-40 flex items-center justify-center p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl h-[80vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Custom CSS</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Added to all your pages, after their theme. A page&apos;s own <span className="font-mono">css</span> frontmatter
+            comes after it. Selectors only match inside the page; <span className="font-mono">body</span> and{' '}
+            <span className="font-mono">:root</span> stand for the page itself.
+          </p>
+        </div>
+
+        <div className="flex-1 flex flex-col p-4 min-h-0 overflow-y-auto">
+          <textarea
+            ref={textareaRef}
+            value={css}
+            onChange={(e) => setCss(e.target.value)}
+            placeholder={'h1 {\n  letter-spacing: -0.02em;\n}'}
+            spellCheck={false}
+            className="flex-1 min-h-[12rem] w-full p-4 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none font-mono text-sm"
+          />
+          <div className={`mt-1 text-xs text-right ${css.length > MAX_CSS_LENGTH ? 'text-red-600' : 'text-gray-400'}`}>
+            {css.length} / {MAX_CSS_LENGTH}
+          </div>
+          {stripped.length > 0 && (
+            <StrippedContentNotice stripped={stripped} kind="CSS" markdown={css} onSelectLine={selectLine} />
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={saveCss}
+            disabled={isSaving || css.length > MAX_CSS_LENGTH}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
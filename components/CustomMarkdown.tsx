@@ -1,47 +1,142 @@
-import React from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useMemo } from 'react';
+import { Fragment, jsx, jsxs } from 'react/jsx-runtime';
+import { toJsxRuntime, Components } from 'hast-util-to-jsx-runtime';
+import type { Root } from 'hast';
 import AudioPlayer from './AudioPlayer';
 import VideoPlayer from './VideoPlayer';
+import CodeBlock from './CodeBlock';
+import MermaidDiagram from './MermaidDiagram';
+import Callout from './Callout';
+import { CALLOUT_TYPES, CalloutType } from '../lib/blocks';
+
+// Where [[slug]] links lead. Without it they stay relative to the current page
+export interface WikiLinks {
+  // URL of every linked page that exists, by slug; the others are shown as missing
+  targets: Record<string, string>;
+  // Where a missing page can be created; without it, missing links are plain text
+  createHref?: (slug: string) => string;
+}
 
 interface CustomMarkdownProps {
-  children: string;
+  // Tree compiled by lib/markdown.ts: at publish time, at build time, or in
+  // the browser by MarkdownPreview
+  ast: Root | null;
+  wikiLinks?: WikiLinks;
+  // For the editor preview: marks where ![[slug]] embeds go, since they are
+  // only filled in on published pages, and shows what is wrong with directives
+  // that can't be rendered (published pages show their text instead)
+  preview?: boolean;
 }
 
-export default function CustomMarkdown({ children }: CustomMarkdownProps) {
-  // Custom renderer for audio and video tags
-  const components = {
-    p: ({ children, ...props }: React.ComponentProps<'p'>) => {
-      // Convert children to string to check for media tags
-      const content = React.Children.toArray(children)
-        .map(child => {
-          if (typeof child === 'string') return child;
-          if (React.isValidElement(child) && typeof child.props.children === 'string') {
-            return child.props.children;
-          }
-          return '';
-        })
-        .join('');
-      
-      // Check if this paragraph contains an audio tag
-      if (content.trim().startsWith('!audio(') && content.trim().endsWith(')')) {
-        const audioUrl = content.trim().slice(7, -1); // Remove !audio( and )
-        return <AudioPlayer src={audioUrl} />;
-      }
-      
-      // Check if this paragraph contains a video tag
-      if (content.trim().startsWith('!video(') && content.trim().endsWith(')')) {
-        const videoUrl = content.trim().slice(7, -1); // Remove !video( and )
-        return <VideoPlayer src={videoUrl} />;
+// !audio(url) and !video(url) are compiled to <audio> and <video> elements
+// (see lib/directives)
+const mediaComponents: Partial<Components> = {
+  audio: ({ src }) => (src ? <AudioPlayer src={src} /> : null),
+  video: ({ src }) => (src ? <VideoPlayer src={src} /> : null)
+};
+
+// Fenced code is highlighted by lib/codeBlocks.ts; this adds the copy button.
+// ```mermaid fences are compiled to <pre data-mermaid> and drawn here
+const codeComponents: Partial<Components> = {
+  pre: (props) => {
+    if ((props as Record<string, unknown>)['data-mermaid']) {
+      return <MermaidDiagram source={String(React.Children.toArray(props.children).join(''))} />;
+    }
+
+    return <CodeBlock {...props} />;
+  }
+};
+
+function getCalloutType(props: object): CalloutType | null {
+  const type = (props as Record<string, unknown>)['data-callout'];
+  return CALLOUT_TYPES.find((known) => known === type) ?? null;
+}
+
+// > [!type] callouts are compiled to <aside data-callout="type">, or to
+// <details data-callout="type"> when they are collapsible (see lib/blocks.ts)
+const blockComponents: Partial<Components> = {
+  aside: (props) => {
+    const type = getCalloutType(props);
+    return type ? <Callout type={type}>{props.children}</Callout> : <aside {...props} />;
+  },
+  details: (props) => {
+    const type = getCalloutType(props);
+    return type
+      ? <Callout type={type} collapsible open={props.open}>{props.children}</Callout>
+      : <details {...props} />;
+  }
+};
+
+// [[slug]] links are compiled to <a data-wiki-link="slug">
+function wikiLinkComponents({ targets, createHref }: WikiLinks): Partial<Components> {
+  return {
+    a: (props) => {
+      const slug = (props as Record<string, unknown>)['data-wiki-link'];
+      if (typeof slug !== 'string') return <a {...props} />;
+
+      if (targets[slug]) return <a {...props} href={targets[slug]} />;
+
+      // Opened in a new tab, so whatever is being edited stays open
+      if (createHref) {
+        return (
+          <a
+            {...props}
+            href={createHref(slug)}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={`Create "${slug}"`}
+            className="text-red-600 decoration-dashed"
+          />
+        );
       }
-      
-      // Default paragraph rendering
-      return <p {...props}>{children}</p>;
+
+      return (
+        <span className="border-b border-dashed border-gray-400" title="This page doesn't exist yet">
+          {props.children}
+        </span>
+      );
     }
   };
+}
+
+// ![[slug]] embeds are compiled to <div data-embed="slug">, filled in by
+// lib/embeds.ts, and directives that can't be rendered to <p data-directive-error>
+const previewComponents: Partial<Components> = {
+  div: (props) => {
+    const slug = (props as Record<string, unknown>)['data-embed'];
+    const heading = (props as Record<string, unknown>)['data-embed-heading'];
+    if (typeof slug !== 'string' || React.Children.count(props.children) > 0) return <div {...props} />;
 
-  return (
-    <ReactMarkdown components={components}>
-      {children}
-    </ReactMarkdown>
-  );
-} 
\ No newline at end of file
+    return (
+      <div className="not-prose my-4 px-4 py-3 text-sm text-gray-500 border border-dashed border-gray-300 rounded-md">
+        Embeds <span className="font-mono">{typeof heading === 'string' ? `${slug}#${heading}` : slug}</span> when published
+      </div>
+    );
+  },
+  p: (props) => {
+    const error = (props as Record<string, unknown>)['data-directive-error'];
+    if (typeof error !== 'string') return <p {...props} />;
+
+    return (
+      <div className="not-prose my-4 px-4 py-3 text-sm border border-red-200 bg-red-50 rounded-md">
+        <div className="font-mono text-red-800">{props.children}</div>
+        <div className="mt-1 text-red-700">{error}</div>
+      </div>
+    );
+  }
+};
+
+// Renders compiled markdown. It doesn't compile anything itself, so the
+// markdown pipeline and the highlighter stay out of the pages that use it
+export default function CustomMarkdown({ ast, wikiLinks, preview }: CustomMarkdownProps) {
+  const components = useMemo(() => ({
+    ...mediaComponents,
+    ...codeComponents,
+    ...blockComponents,
+    ...(wikiLinks ? wikiLinkComponents(wikiLinks) : {}),
+    ...(preview ? previewComponents : {})
+  }), [wikiLinks, preview]);
+
+  if (!ast) return null;
+  return toJsxRuntime(ast, { Fragment, jsx, jsxs, components });
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { FrontmatterFieldError } from '../lib/frontmatter';
+
+interface FrontmatterErrorsProps {
+  errors: FrontmatterFieldError[];
+  markdown: string;
+  onSelectLine: (line: number) => void;
+  onDismiss: () => void;
+}
+
+export default function FrontmatterErrors({ errors, markdown, onSelectLine, onDismiss }: FrontmatterErrorsProps) {
+  const lines = markdown.split('\n');
+
+  return (
+    <div className="mt-3 border border-red-200 bg-red-50 rounded-md text-sm">
+      <div className="px-3 py-2 flex items-center justify-between border-b border-red-200">
+        <span className="font-medium text-red-800">
+          Fix {errors.length === 1 ? 'this frontmatter error' : `these ${errors.length} frontmatter errors`} to publish
+        </span>
+        <button onClick={onDismiss} className="text-xs text-red-700 hover:text-red-900">
+          Dismiss
+        </button>
+      </div>
+      <ul>
+        {errors.map((error, index) => (
+          <li key={`${error.field}-${index}`}>
+            <button
+              onClick={() => error.line !== null && onSelectLine(error.line)}
+              disabled={error.line === null}
+              className="w-full text-left px-3 py-2 flex items-baseline space-x-3 hover:bg-red-100 disabled:hover:bg-transparent disabled:cursor-default"
+            >
+              <span className="font-mono text-xs text-red-600 w-14 flex-shrink-0">
+                {error.line !== null ? `Line ${error.line}` : ''}
+              </span>
+              <span className="min-w-0">
+                {error.line !== null && lines[error.line - 1] !== undefined && (
+                  <code className="block font-mono text-xs text-gray-700 truncate">{lines[error.line - 1]}</code>
+                )}
+                <span className="text-red-800">{error.message}</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import React, { useEffect, useMemo } from 'react';
+import CustomMarkdown, { WikiLinks } from './CustomMarkdown';
+import { compilePage } from '../lib/markdown';
+import type { StrippedContent } from '../lib/html';
+
+interface MarkdownPreviewProps {
+  // Document to render, frontmatter included
+  children?: string;
+  wikiLinks?: WikiLinks;
+  // Called with the raw HTML the sanitizer took out, on pages with
+  // `html: true` (see lib/html.ts)
+  onStrippedHtml?: (stripped: StrippedContent[]) => void;
+}
+
+// The editor preview: compiles the document in the browser as it is written,
+// and renders it as published pages are, with directive errors shown
+export default function MarkdownPreview({ children = '', wikiLinks, onStrippedHtml }: MarkdownPreviewProps) {
+  const { ast, strippedHtml } = useMemo(() => compilePage(children), [children]);
+
+  useEffect(() => {
+    onStrippedHtml?.(strippedHtml);
+  }, [strippedHtml, onStrippedHtml]);
+
+  return <CustomMarkdown ast={ast} wikiLinks={wikiLinks} preview />;
+}
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+
+interface MermaidDiagramProps {
+  source: string;
+}
+
+// mermaid.render needs an id that is unique on the page
+let diagramCount = 0;
+
+// Draws a ```mermaid fence. Mermaid only runs in the browser, so it is loaded
+// when a page has a diagram; the source is shown until it is drawn
+export default function MermaidDiagram({ source }: MermaidDiagramProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const renderDiagram = async () => {
+      try {
+        const mermaid = (await import('mermaid')).default;
+        mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', suppressErrorRendering: true });
+
+        diagramCount += 1;
+        const { svg: rendered } = await mermaid.render(`mermaid-diagram-${diagramCount}`, source);
+        if (cancelled) return;
+        setSvg(rendered);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setSvg(null);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    renderDiagram();
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  if (error) {
+    return (
+      <div className="not-prose my-6 px-4 py-3 text-sm border border-red-200 bg-red-50 rounded-md">
+        <div className="font-medium text-red-800">This diagram can&apos;t be drawn</div>
+        <pre className="mt-1 whitespace-pre-wrap font-mono text-red-700">{error}</pre>
+      </div>
+    );
+  }
+
+  if (svg) {
+    // Mermaid's strict security level sanitizes the labels in the SVG
+    return <div className="not-prose my-6 flex justify-center overflow-x-auto" dangerouslySetInnerHTML={{ __html: svg }} />;
+  }
+
+  return <pre>{source}</pre>;
+}
@@ -0,0 +1,36 @@
+import React from 'react';
+import Head from 'next/head';
+import { PageSeo, SITE_NAME } from '../lib/seo';
+
+interface PageHeadProps {
+  seo: PageSeo;
+}
+
+// Title, description and Open Graph / Twitter card tags of a published page
+export default function PageHead({ seo }: PageHeadProps) {
+  return (
+    <Head>
+      <title>{seo.title}</title>
+      {seo.description && <meta name="description" content={seo.description} />}
+      {seo.url && <link rel="canonical" href={seo.url} />}
+      {seo.noindex && <meta name="robots" content="noindex" />}
+
+      <meta property="og:site_name" content={SITE_NAME} />
+      <meta property="og:type" content="article" />
+      <meta property="og:title" content={seo.title} />
+      {seo.description && <meta property="og:description" content={seo.description} />}
+      {seo.url && <meta property="og:url" content={seo.url} />}
+      {seo.image && <meta property="og:image" content={seo.image} />}
+      {seo.image && seo.imageAlt && <meta property="og:image:alt" content={seo.imageAlt} />}
+      {seo.publishedTime && <meta property="article:published_time" content={seo.publishedTime} />}
+      {seo.tags.map((tag) => (
+        <meta key={`article:tag:${tag}`} property="article:tag" content={tag} />
+      ))}
+
+      <meta name="twitter:card" content={seo.image ? 'summary_large_image' : 'summary'} />
+      <meta name="twitter:title" content={seo.title} />
+      {seo.description && <meta name="twitter:description" content={seo.description} />}
+      {seo.image && <meta name="twitter:image" content={seo.image} />}
+    </Head>
+  );
+}
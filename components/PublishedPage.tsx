@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import type { Root } from 'hast';
+import CustomMarkdown from './CustomMarkdown';
+import UnlockForm from './UnlockForm';
+import PageHead from './PageHead';
+import SearchBox from './SearchBox';
+import ThemedPage from './ThemedPage';
+import { Frontmatter, PageTheme } from '../lib/frontmatter';
+import { PageGate } from '../lib/visibility';
+import { PageSeo } from '../lib/seo';
+import { getTheme } from '../lib/themes';
+import type { PageLinks } from '../lib/pageLinks';
+
+interface PublishedPageProps {
+  ast: Root | null;
+  frontmatter: Frontmatter;
+  pageId: number;
+  gate: PageGate;
+  seo: PageSeo;
+  author?: string | null;
+  links: PageLinks;
+  // Theme for pages that don't set one
+  defaultTheme?: PageTheme | null;
+  // Sanitized custom CSS of the owner and of the page
+  authorCss?: string;
+  pageCss?: string;
+}
+
+interface GatedContent {
+  ast: Root;
+  frontmatter: Frontmatter;
+  links: PageLinks;
+  pageCss: string;
+}
+
+export default function PublishedPage({
+  ast,
+  frontmatter,
+  pageId,
+  gate,
+  seo,
+  author,
+  links,
+  defaultTheme,
+  authorCss = '',
+  pageCss = ''
+}: PublishedPageProps) {
+  // Password-protected and private pages are generated without their content,
+  // which is fetched here once the visitor's cookies have been checked
+  const [gatedContent, setGatedContent] = useState<GatedContent | null>(null);
+  const [gateState, setGateState] = useState<'loading' | 'password' | 'notFound' | 'open'>(
+    gate === 'none' ? 'open' : 'loading'
+  );
+
+  const loadGatedContent = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/page-content?pageId=${pageId}`);
+      if (response.ok) {
+        setGatedContent(await response.json());
+        setGateState('open');
+      } else if (response.status === 401) {
+        setGateState('password');
+      } else {
+        setGateState('notFound');
+      }
+    } catch (error) {
+      console.error('Error loading page content:', error);
+      setGateState('notFound');
+    }
+  }, [pageId]);
+
+  useEffect(() => {
+    if (gate === 'none') {
+      setGateState('open');
+      setGatedContent(null);
+      return;
+    }
+
+    setGateState('loading');
+    loadGatedContent();
+  }, [gate, loadGatedContent]);
+
+  const pageAst = gatedContent?.ast ?? ast;
+  const pageFrontmatter = gatedContent?.frontmatter ?? frontmatter;
+  const pageLinks = gatedContent?.links ?? links;
+  // The page's own CSS comes last, so it wins over its owner's
+  const customCss = [authorCss, gatedContent?.pageCss ?? pageCss].filter(Boolean).join('\n');
+  const wikiLinks = useMemo(() => ({ targets: pageLinks.targets }), [pageLinks]);
+
+  const theme = getTheme(pageFrontmatter.theme, defaultTheme);
+
+  // Determine content width based on frontmatter
+  const getLayoutClass = () => {
+    switch (pageFrontmatter.layout) {
+      case 'wide':
+        return 'max-w-6xl';
+      case 'full':
+        return 'max-w-none';
+      case 'default':
+      default:
+        return 'max-w-4xl';
+    }
+  };
+
+  if (gateState === 'loading') {
+    return (
+      <>
+        <PageHead seo={seo} />
+        <div className="min-h-screen bg-white" />
+      </>
+    );
+  }
+
+  if (gateState === 'password') {
+    return (
+      <>
+        <PageHead seo={seo} />
+        <UnlockForm pageId={pageId} onUnlocked={loadGatedContent} />
+      </>
+    );
+  }
+
+  if (gateState === 'notFound') {
+    // Private pages look the same as pages that don't exist
+    return (
+      <>
+        <PageHead seo={seo} />
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <div className="text-center">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">404 - Page Not Found</h1>
+            <Link
+              href="/"
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Go to Dashboard
+            </Link>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <ThemedPage
+      theme={theme}
+      font={pageFrontmatter.font}
+      background={pageFrontmatter.background}
+      css={customCss}
+      className="min-h-screen"
+    >
+      <PageHead seo={seo} />
+      <div className={`${getLayoutClass()} mx-auto px-6 py-12`}>
+        {author && (
+          <div className="flex justify-end mb-8">
+            <div className="w-full max-w-xs">
+              <SearchBox username={author} placeholder={`Search @${author}`} />
+            </div>
+          </div>
+        )}
+        <div className={`prose ${theme.scale} max-w-none`}>
+          <CustomMarkdown ast={pageAst} wikiLinks={wikiLinks} />
+        </div>
+
+        {pageLinks.backlinks.length > 0 && (
+          <section className="mt-16 pt-8 border-t border-[color:var(--page-border)]">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-[color:var(--page-muted)] mb-4">
+              Linked from
+            </h2>
+            <ul className="space-y-2">
+              {pageLinks.backlinks.map((backlink) => (
+                <li key={backlink.path}>
+                  <Link href={backlink.path} className="text-[color:var(--page-link)] hover:underline">
+                    {backlink.title}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </ThemedPage>
+  );
+}
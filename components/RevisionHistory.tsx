@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { fetchWithAuth } from '../contexts/AuthContext';
+import { diffLines, diffStats, toSideBySide, DiffLine } from '../lib/diff';
+import { PageVisibility } from '../lib/visibility';
+
+interface RevisionSummary {
+  id: number;
+  revision_number: number;
+  restored_from_revision_id: number | null;
+  created_at: string;
+}
+
+interface RevisionHistoryProps {
+  slug: string;
+  currentMarkdown: string;
+  // Version of the page the editor loaded, so a restore doesn't overwrite a newer save
+  loadedUpdatedAt: string | null;
+  onClose: () => void;
+  onRestored: (markdown: string, updatedAt: string, visibility: PageVisibility) => void;
+}
+
+const lineClasses: Record<DiffLine['type'], string> = {
+  same: 'text-gray-700',
+  added: 'bg-green-50 text-green-900',
+  removed: 'bg-red-50 text-red-900'
+};
+
+const linePrefixes: Record<DiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-'
+};
+
+export default function RevisionHistory({ slug, currentMarkdown, loadedUpdatedAt, onClose, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [selectedMarkdown, setSelectedMarkdown] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'inline' | 'split'>('inline');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Load the revision list when the panel opens
+  useEffect(() => {
+    const loadRevisions = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetchWithAuth(`/api/revisions?slug=${encodeURIComponent(slug)}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch revisions');
+        }
+        const data = await response.json();
+        setRevisions(data.revisions || []);
+        if (data.revisions?.length > 0) {
+          setSelectedId(data.revisions[0].id);
+        }
+      } catch (error) {
+        console.error('Error loading revisions:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [slug]);
+
+  // Load the content of the selected revision
+  useEffect(() => {
+    if (selectedId === null) return;
+
+    const loadRevision = async () => {
+      setSelectedMarkdown(null);
+      try {
+        const response = await fetchWithAuth(`/api/revisions?revisionId=${selectedId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch revision');
+        }
+        const data = await response.json();
+        setSelectedMarkdown(data.revision.markdown);
+      } catch (error) {
+        console.error('Error loading revision:', error);
+      }
+    };
+
+    loadRevision();
+  }, [selectedId]);
+
+  // Diff from the selected revision to what is currently in the editor
+  const diff = useMemo(
+    () => (selectedMarkdown === null ? [] : diffLines(selectedMarkdown, currentMarkdown)),
+    [selectedMarkdown, currentMarkdown]
+  );
+  const stats = diffStats(diff);
+
+  const handleRestore = async () => {
+    if (selectedId === null) return;
+
+    const revision = revisions.find(r => r.id === selectedId);
+    if (!confirm(`Restore revision ${revision?.revision_number}? It will be published as a new revision.`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const response = await fetchWithAuth('/api/revisions', {
+        method: 'POST',
+        body: JSON.stringify({ revisionId: selectedId, action: 'restore', expectedUpdatedAt: loadedUpdatedAt }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        onRestored(data.markdown, data.updatedAt, data.visibility);
+        onClose();
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to restore revision: ${errorData.error || 'Please try again.'}`);
+      }
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      alert('An error occurred while restoring. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black bg-opacity-40 flex items-center justify-center p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl h-[80vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            History for <span className="font-mono">/{slug}</span>
+          </h2>
+          <div className="flex items-center space-x-2">
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+              <button
+                onClick={() => setViewMode('inline')}
+                className={`px-3 py-1 ${viewMode === 'inline' ? 'bg-gray-200 text-gray-900' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+              >
+                Inline
+              </button>
+              <button
+                onClick={() => setViewMode('split')}
+                className={`px-3 py-1 ${viewMode === 'split' ? 'bg-gray-200 text-gray-900' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+              >
+                Side by side
+              </button>
+            </div>
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring || selectedMarkdown === null || selectedId === revisions[0]?.id}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isRestoring ? 'Restoring...' : 'Restore'}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision list */}
+          <div className="w-56 border-r border-gray-200 overflow-y-auto">
+            {isLoading ? (
+              <p className="p-4 text-sm text-gray-500">Loading...</p>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No revisions yet.</p>
+            ) : (
+              revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`px-4 py-2 cursor-pointer text-sm ${
+                    revision.id === selectedId ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  <div className="font-medium">
+                    Revision {revision.revision_number}
+                    {index === 0 && <span className="ml-1 text-xs text-gray-500">(latest)</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(revision.created_at).toLocaleString()}
+                  </div>
+                  {revision.restored_from_revision_id && (
+                    <div className="text-xs text-gray-500">Restored</div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Diff against the editor content */}
+          <div className="flex-1 overflow-auto">
+            {selectedMarkdown === null ? (
+              <p className="p-4 text-sm text-gray-500">Select a revision to compare.</p>
+            ) : (
+              <div>
+                <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-100">
+                  Changes from this revision to the editor: <span className="text-green-700">+{stats.added}</span>{' '}
+                  <span className="text-red-700">-{stats.removed}</span>
+                </div>
+                {viewMode === 'inline' ? (
+                  <pre className="text-xs font-mono">
+                    {diff.map((line, index) => (
+                      <div key={index} className={`px-4 whitespace-pre-wrap ${lineClasses[line.type]}`}>
+                        {linePrefixes[line.type]} {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <div className="grid grid-cols-2 text-xs font-mono">
+                    {toSideBySide(diff).map((row, index) => (
+                      <React.Fragment key={index}>
+                        <div className={`px-4 whitespace-pre-wrap border-r border-gray-100 ${row.left ? lineClasses[row.left.type] : 'bg-gray-50'}`}>
+                          {row.left?.text ?? ''}
+                        </div>
+                        <div className={`px-4 whitespace-pre-wrap ${row.right ? lineClasses[row.right.type] : 'bg-gray-50'}`}>
+                          {row.right?.text ?? ''}
+                        </div>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
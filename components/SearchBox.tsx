@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { supabase } from '../contexts/AuthContext';
+import type { SearchResult } from '../lib/search';
+
+interface SearchBoxProps {
+  // Search this author's public pages; without it, the signed-in user's own
+  // pages are searched and results open in the editor
+  username?: string;
+  placeholder?: string;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+export default function SearchBox({ username, placeholder = 'Search pages' }: SearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Search once typing pauses; a newer query cancels the pending one
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const headers: Record<string, string> = {};
+        if (!username) {
+          const session = await supabase.auth.getSession();
+          const token = session.data.session?.access_token;
+          if (!token) return;
+          headers['Authorization'] = `Bearer ${token}`;
+        }
+
+        const params = new URLSearchParams({ q: trimmed });
+        if (username) params.set('username', username);
+
+        const response = await fetch(`/api/search?${params}`, { headers });
+        if (!response.ok) {
+          throw new Error('Search failed');
+        }
+
+        const data = await response.json();
+        if (!cancelled) setResults(data.results || []);
+      } catch (error) {
+        console.error('Error searching pages:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, username]);
+
+  return (
+    <div className="relative">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setQuery('');
+        }}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+
+      {results !== null && (
+        <div className="absolute z-20 mt-1 w-full max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg">
+          {results.length === 0 ? (
+            <div className="px-3 py-2 text-sm text-gray-500">
+              {isSearching ? 'Searching...' : 'No pages found'}
+            </div>
+          ) : (
+            results.map((result) => (
+              <Link
+                key={result.id}
+                href={username ? result.path : `/editor?slug=${result.slug}`}
+                className="block px-3 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+              >
+                <div className="text-sm font-medium text-gray-900 truncate">{result.title}</div>
+                <div className="text-xs font-mono text-blue-600 truncate">{result.path}</div>
+                {result.snippet.length > 0 && (
+                  <div className="mt-1 text-xs text-gray-600 line-clamp-2">
+                    {result.snippet.map((part, index) =>
+                      part.match ? (
+                        <mark key={index} className="bg-yellow-100 text-gray-900">{part.text}</mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      )
+                    )}
+                  </div>
+                )}
+              </Link>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { fetchWithAuth } from '../contexts/AuthContext';
+
+interface ShareLinkSummary {
+  id: number;
+  path: string;
+  expiresAt: string | null;
+  maxViews: number | null;
+  viewCount: number;
+  revokedAt: string | null;
+  createdAt: string;
+  active: boolean;
+}
+
+interface SharePanelProps {
+  slug: string;
+  onClose: () => void;
+}
+
+// Expiry choices, in hours (0 means the link never expires)
+const expiryOptions = [
+  { label: 'Never', hours: 0 },
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 }
+];
+
+function describeLink(link: ShareLinkSummary): string {
+  if (link.revokedAt) return 'Revoked';
+  if (link.expiresAt && new Date(link.expiresAt) <= new Date()) return 'Expired';
+  if (link.maxViews !== null && link.viewCount >= link.maxViews) return 'Used up';
+  return link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleString()}` : 'No expiry';
+}
+
+export default function SharePanel({ slug, onClose }: SharePanelProps) {
+  const [pageId, setPageId] = useState<number | null>(null);
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [expiryHours, setExpiryHours] = useState(24 * 7);
+  const [maxViews, setMaxViews] = useState('');
+
+  // Load the page's share links when the panel opens
+  useEffect(() => {
+    const loadLinks = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetchWithAuth(`/api/share-links?slug=${encodeURIComponent(slug)}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch share links');
+        }
+        const data = await response.json();
+        setPageId(data.page.id);
+        setLinks(data.links || []);
+      } catch (error) {
+        console.error('Error loading share links:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLinks();
+  }, [slug]);
+
+  const copyLink = async (link: ShareLinkSummary) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${link.path}`);
+    } catch {
+      prompt('Copy this link:', `${window.location.origin}${link.path}`);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (pageId === null) return;
+
+    const views = maxViews.trim() ? Number(maxViews) : null;
+    if (views !== null && (!Number.isInteger(views) || views < 1)) {
+      alert('View limit must be a positive whole number.');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const response = await fetchWithAuth('/api/share-links', {
+        method: 'POST',
+        body: JSON.stringify({
+          pageId,
+          expiresAt: expiryHours ? new Date(Date.now() + expiryHours * 3600000).toISOString() : null,
+          maxViews: views
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setLinks([data.link, ...links]);
+        setMaxViews('');
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to create share link: ${errorData.error || 'Please try again.'}`);
+      }
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert('An error occurred while creating the share link. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkSummary) => {
+    if (!confirm('Revoke this link? Anyone using it will no longer be able to view the page.')) {
+      return;
+    }
+
+    try {
+      const response = await fetchWithAuth('/api/share-links', {
+        method: 'DELETE',
+        body: JSON.stringify({ id: link.id }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setLinks(links.map((existing) => (existing.id === link.id ? data.link : existing)));
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to revoke share link: ${errorData.error || 'Please try again.'}`);
+      }
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      alert('An error occurred while revoking the share link. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black bg-opacity-40 flex items-center justify-center p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Share <span className="font-mono">/{slug}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* New link */}
+        <div className="p-4 border-b border-gray-200">
+          <p className="text-sm text-gray-600 mb-3">
+            Anyone with a share link can read this page, even while it is a draft or private.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="share-expiry" className="block text-xs font-medium text-gray-700 mb-1">
+                Expires after
+              </label>
+              <select
+                id="share-expiry"
+                value={expiryHours}
+                onChange={(e) => setExpiryHours(Number(e.target.value))}
+                className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {expiryOptions.map((option) => (
+                  <option key={option.hours} value={option.hours}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="share-max-views" className="block text-xs font-medium text-gray-700 mb-1">
+                View limit (optional)
+              </label>
+              <input
+                id="share-max-views"
+                type="number"
+                min={1}
+                value={maxViews}
+                onChange={(e) => setMaxViews(e.target.value)}
+                placeholder="Unlimited"
+                className="w-32 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={isCreating || pageId === null}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isCreating ? 'Creating...' : 'Create link'}
+            </button>
+          </div>
+        </div>
+
+        {/* Existing links */}
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <p className="p-4 text-sm text-gray-500">Loading...</p>
+          ) : links.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No share links yet.</p>
+          ) : (
+            links.map((link) => (
+              <div key={link.id} className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className={`font-mono text-sm truncate ${link.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                    {link.path}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {describeLink(link)} · {link.viewCount}{link.maxViews !== null ? ` / ${link.maxViews}` : ''} views ·
+                    created {new Date(link.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+                {link.active && (
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => copyLink(link)}
+                      className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                    >
+                      Copy
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(link)}
+                      className="px-3 py-1 text-sm bg-red-50 text-red-700 rounded hover:bg-red-100 transition-colors"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { PageStatus } from '../lib/pageStatus';
+
+interface StatusBadgeProps {
+  status: PageStatus;
+  publishAt?: string | null;
+}
+
+const badgeStyles: Record<PageStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  published: 'bg-green-100 text-green-800',
+  scheduled: 'bg-amber-100 text-amber-800',
+  unpublished: 'bg-red-100 text-red-700'
+};
+
+const badgeLabels: Record<PageStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  scheduled: 'Scheduled',
+  unpublished: 'Unpublished'
+};
+
+export default function StatusBadge({ status, publishAt }: StatusBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${badgeStyles[status]}`}
+      title={status === 'scheduled' && publishAt ? `Goes live ${new Date(publishAt).toLocaleString()}` : undefined}
+    >
+      {badgeLabels[status]}
+      {status === 'scheduled' && publishAt && (
+        <span className="ml-1 font-normal">{new Date(publishAt).toLocaleDateString()}</span>
+      )}
+    </span>
+  );
+}
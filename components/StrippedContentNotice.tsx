@@ -0,0 +1,50 @@
+import React from 'react';
+import type { StrippedContent } from '../lib/html';
+
+interface StrippedContentNoticeProps {
+  stripped: StrippedContent[];
+  // What was sanitized: raw HTML, or custom CSS (see lib/customCss.ts)
+  kind?: 'HTML' | 'CSS';
+  markdown: string;
+  onSelectLine: (line: number) => void;
+}
+
+// Raw HTML the sanitizer takes out of pages with `html: true`, or CSS taken out
+// of their `css`. Unlike frontmatter errors it doesn't stop publishing; readers
+// just won't see it
+export default function StrippedContentNotice({ stripped, kind = 'HTML', markdown, onSelectLine }: StrippedContentNoticeProps) {
+  const lines = markdown.split('\n');
+
+  return (
+    <div className="mt-3 border border-amber-200 bg-amber-50 rounded-md text-sm">
+      <div className="px-3 py-2 border-b border-amber-200">
+        <span className="font-medium text-amber-900">
+          {stripped.length === 1 ? `This ${kind} is` : `These ${stripped.length} pieces of ${kind} are`} left out of the page
+        </span>
+      </div>
+      <ul>
+        {stripped.map((item, index) => (
+          <li key={`${item.content}-${index}`}>
+            <button
+              onClick={() => item.line !== null && onSelectLine(item.line)}
+              disabled={item.line === null}
+              className="w-full text-left px-3 py-2 flex items-baseline space-x-3 hover:bg-amber-100 disabled:hover:bg-transparent disabled:cursor-default"
+            >
+              <span className="font-mono text-xs text-amber-700 w-14 flex-shrink-0">
+                {item.line !== null ? `Line ${item.line}` : ''}
+              </span>
+              <span className="min-w-0">
+                {item.line !== null && lines[item.line - 1] !== undefined && (
+                  <code className="block font-mono text-xs text-gray-700 truncate">{lines[item.line - 1]}</code>
+                )}
+                <span className="text-amber-900">
+                  <code className="font-mono">{item.content}</code>: {item.reason}
+                </span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
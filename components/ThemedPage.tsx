@@ -0,0 +1,39 @@
+import React from 'react';
+import { PageFont } from '../lib/frontmatter';
+import { buildThemeCss, getThemeCodeTheme, Theme, ThemeMode, THEME_SCOPE } from '../lib/themes';
+
+interface ThemedPageProps {
+  theme: Theme;
+  // The page's own `font` and `background`, which win over the theme's
+  font?: PageFont;
+  background?: string;
+  mode?: ThemeMode;
+  // Custom CSS, already sanitized and scoped (see lib/customCss.ts); it comes
+  // after the theme's so it wins over it
+  css?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const FONT_CLASSES: Record<PageFont, string> = {
+  serif: 'font-serif',
+  sans: 'font-sans',
+  mono: 'font-mono'
+};
+
+// Applies a theme (see lib/themes.ts) to a rendered page: its colors, dark
+// variant and font, the colors of its code blocks and its custom CSS
+export default function ThemedPage({ theme, font, background, mode = 'system', css, className = '', children }: ThemedPageProps) {
+  // Positioned and isolated, so absolutely positioned elements and z-indexes
+  // in custom CSS stay on the page
+  return (
+    <div
+      className={`${THEME_SCOPE} relative isolate ${FONT_CLASSES[font ?? theme.font]} ${className}`}
+      data-code-theme={getThemeCodeTheme(theme, mode, background)}
+    >
+      <style dangerouslySetInnerHTML={{ __html: buildThemeCss(theme, mode, background) }} />
+      {css && <style dangerouslySetInnerHTML={{ __html: css }} />}
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+
+interface UnlockFormProps {
+  pageId: number;
+  onUnlocked: () => void;
+}
+
+export default function UnlockForm({ pageId, onUnlocked }: UnlockFormProps) {
+  const [password, setPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/unlock', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ pageId, password }),
+      });
+
+      if (response.ok) {
+        onUnlocked();
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to unlock page');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="text-center mb-6">
+          <div className="text-4xl mb-2">🔒</div>
+          <h1 className="text-xl font-semibold text-gray-900">This page is password protected</h1>
+          <p className="text-sm text-gray-600 mt-1">Enter the password to view it.</p>
+        </div>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        <button
+          type="submit"
+          disabled={isUnlocking || !password}
+          className="w-full mt-4 px-4 py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -7,6 +7,34 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
 export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey);
 
+// Helper function to call an API route with the current session token, as JSON
+export async function fetchWithAuth(url: string, init: RequestInit = {}) {
+  const session = await supabase.auth.getSession();
+  return fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.data.session?.access_token}`,
+      ...init.headers,
+    },
+  });
+}
+
+// Mirror the access token into a cookie so server-rendered pages can recognise
+// the owner of a private or password-protected page. The cookie is HttpOnly,
+// so it is set by /api/session rather than here
+function syncSessionCookie(session: Session | null) {
+  if (typeof window === 'undefined') return;
+
+  const request: RequestInit = session
+    ? { method: 'POST', headers: { 'Authorization': `Bearer ${session.access_token}` } }
+    : { method: 'DELETE' };
+
+  fetch('/api/session', request).catch((error) => {
+    console.error('Error syncing session cookie:', error);
+  });
+}
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
@@ -42,6 +70,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const { data: { session: initialSession } } = await supabase.auth.getSession();
       setSession(initialSession);
       setUser(initialSession?.user ?? null);
+      syncSessionCookie(initialSession);
       setLoading(false);
     };
 
@@ -52,6 +81,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       async (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
+        syncSessionCookie(session);
         setLoading(false);
       }
     );
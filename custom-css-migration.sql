@@ -0,0 +1,8 @@
+-- Add a stylesheet per user, added to all their pages before each page's own
+-- `css:` frontmatter. Stored as written; it is sanitized and scoped to the page
+-- whenever it is used (see lib/customCss.ts)
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS custom_css TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN profiles.custom_css IS 'CSS added to all of the user''s pages (NULL for none)';
@@ -0,0 +1,219 @@
+import { SKIP, visit } from 'unist-util-visit';
+import type { Blockquote, BlockContent, Paragraph, PhrasingContent, Root, Text } from 'mdast';
+import type { ContainerDirective, LeafDirective, TextDirective } from 'mdast-util-directive';
+
+// Callout types, after GitHub's alerts. Obsidian's other types are styled as
+// the closest of these
+export const CALLOUT_TYPES = ['note', 'tip', 'important', 'warning', 'caution'] as const;
+export type CalloutType = typeof CALLOUT_TYPES[number];
+
+const CALLOUT_ALIASES: Record<string, CalloutType> = {
+  info: 'note',
+  abstract: 'note',
+  summary: 'note',
+  tldr: 'note',
+  todo: 'note',
+  example: 'note',
+  quote: 'note',
+  cite: 'note',
+  hint: 'tip',
+  success: 'tip',
+  check: 'tip',
+  done: 'tip',
+  question: 'important',
+  help: 'important',
+  faq: 'important',
+  attention: 'warning',
+  danger: 'caution',
+  error: 'caution',
+  bug: 'caution',
+  failure: 'caution',
+  fail: 'caution',
+  missing: 'caution'
+};
+
+// > [!type] at the start of a blockquote, then + (shown) or - (hidden) to make
+// it collapsible, then an optional title
+const CALLOUT_PATTERN = /^\[!([a-z]+)\]([+-]?)[ \t]*/i;
+
+export function getCalloutType(name: string): CalloutType {
+  const lower = name.toLowerCase();
+  return (CALLOUT_TYPES as readonly string[]).includes(lower) ? lower as CalloutType : CALLOUT_ALIASES[lower] ?? 'note';
+}
+
+// Split phrasing content at its first line break, for callout titles
+function splitFirstLine(nodes: PhrasingContent[]): [PhrasingContent[], PhrasingContent[]] {
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.type === 'break') return [nodes.slice(0, index), nodes.slice(index + 1)];
+    if (node.type !== 'text') continue;
+
+    const newline = node.value.indexOf('\n');
+    if (newline === -1) continue;
+
+    const before = node.value.slice(0, newline);
+    const after = node.value.slice(newline + 1);
+    return [
+      [...nodes.slice(0, index), ...(before ? [{ ...node, value: before }] : [])],
+      [...(after ? [{ ...node, value: after }] : []), ...nodes.slice(index + 1)]
+    ];
+  }
+
+  return [nodes, []];
+}
+
+// > [!warning] Title turns a blockquote into a callout: an <aside
+// data-callout="warning"> whose first paragraph is the title, or a <details>
+// with the title as its summary when it is collapsible
+function compileCallout(node: Blockquote) {
+  const [first, ...rest] = node.children;
+  if (first?.type !== 'paragraph' || first.children[0]?.type !== 'text') return;
+
+  const text = first.children[0];
+  const match = text.value.match(CALLOUT_PATTERN);
+  if (!match) return;
+
+  const [marker, name, fold] = match;
+  const [title, body] = splitFirstLine([
+    { ...text, value: text.value.slice(marker.length) },
+    ...first.children.slice(1)
+  ]);
+  const defaultTitle = name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+
+  const titleParagraph: Paragraph = {
+    type: 'paragraph',
+    children: title.length > 0 ? title : [{ type: 'text', value: defaultTitle }],
+    data: { hName: fold ? 'summary' : 'p', hProperties: { className: ['callout-title'] } }
+  };
+
+  node.data = {
+    hName: fold ? 'details' : 'aside',
+    hProperties: { dataCallout: getCalloutType(name), ...(fold === '+' ? { open: true } : {}) }
+  };
+  node.children = [
+    titleParagraph,
+    ...(body.length > 0 ? [{ ...first, children: body }] : []),
+    ...rest
+  ];
+}
+
+// The first paragraph of a container is its [label], when it has one
+function takeLabel(node: ContainerDirective): PhrasingContent[] | null {
+  const first = node.children[0];
+  if (first?.type !== 'paragraph' || !first.data?.directiveLabel) return null;
+
+  node.children = node.children.slice(1);
+  return first.children;
+}
+
+// Containers that can't be used keep their content, after a paragraph with
+// the opening line and the problem, for the editor preview to show
+function containerError(node: ContainerDirective, error: string) {
+  const label = takeLabel(node);
+  const opening: Paragraph = {
+    type: 'paragraph',
+    children: [
+      { type: 'text', value: `:::${node.name}${label ? '[' : ''}` },
+      ...(label ? [...label, { type: 'text', value: ']' } as Text] : [])
+    ],
+    data: { hProperties: { dataDirectiveError: error } }
+  };
+
+  node.data = { hName: 'div' };
+  node.children = [opening, ...node.children];
+}
+
+// :::details[Summary], :::details{open} to start out open
+function compileDetails(node: ContainerDirective) {
+  const label = takeLabel(node);
+  const summary: Paragraph = {
+    type: 'paragraph',
+    children: label ?? [{ type: 'text', value: 'Details' }],
+    data: { hName: 'summary' }
+  };
+
+  const open = node.attributes && 'open' in node.attributes;
+  node.data = { hName: 'details', hProperties: open ? { open: true } : {} };
+  node.children = [summary, ...node.children];
+}
+
+// ::::columns holding one :::column per column, side by side on wide screens
+function compileColumns(node: ContainerDirective) {
+  takeLabel(node);
+
+  const stray = node.children.find((child) => child.type !== 'containerDirective' || child.name !== 'column');
+  if (stray) {
+    containerError(node, 'Everything in ::::columns goes in a :::column');
+    return;
+  }
+
+  node.data = { hName: 'div', hProperties: { className: ['columns'] } };
+  for (const column of node.children as ContainerDirective[]) {
+    takeLabel(column);
+    column.data = { hName: 'div', hProperties: { className: ['column'] } };
+  }
+}
+
+// What a text or leaf directive was written as. Attributes come back as
+// key="value", however they were written
+function directiveSource(node: TextDirective | LeafDirective, colons: string): PhrasingContent[] {
+  const attributes = Object.entries(node.attributes ?? {})
+    .map(([key, value]) => (value ? `${key}="${value}"` : key))
+    .join(' ');
+  const closing = `${node.children.length > 0 ? ']' : ''}${attributes ? `{${attributes}}` : ''}`;
+
+  return [
+    { type: 'text', value: `${colons}${node.name}${node.children.length > 0 ? '[' : ''}` },
+    ...node.children,
+    ...(closing ? [{ type: 'text', value: closing } as Text] : [])
+  ];
+}
+
+// Callouts, plus the :::name containers remark-directive parses. Pages only
+// use its container syntax, so :name and ::name are put back as the text they
+// were (e.g. "Note:this" or "see re:Invent")
+export function remarkBlocks() {
+  return (tree: Root) => {
+    visit(tree, (node, index, parent) => {
+      if (!parent || index === undefined) return;
+
+      if (node.type === 'textDirective') {
+        const replacement = directiveSource(node, ':');
+        parent.children.splice(index, 1, ...replacement as typeof parent.children);
+        return [SKIP, index + replacement.length];
+      }
+
+      if (node.type === 'leafDirective') {
+        const paragraph: Paragraph = { type: 'paragraph', children: directiveSource(node, '::') };
+        parent.children.splice(index, 1, paragraph as BlockContent);
+        return SKIP;
+      }
+    });
+
+    visit(tree, (node) => {
+      if (node.type === 'blockquote') {
+        compileCallout(node);
+        return;
+      }
+
+      if (node.type !== 'containerDirective') return;
+
+      switch (node.name) {
+        case 'details':
+          compileDetails(node);
+          break;
+        case 'columns':
+          compileColumns(node);
+          break;
+        case 'column':
+          // Compiled with its ::::columns, which is visited first
+          if (!node.data?.hName) {
+            containerError(node, ':::column only goes in a ::::columns');
+          }
+          break;
+        default:
+          containerError(node, `Unknown block :::${node.name}. Available: :::details, ::::columns`);
+      }
+    });
+  };
+}
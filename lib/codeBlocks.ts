@@ -0,0 +1,94 @@
+import { common, createLowlight } from 'lowlight';
+import { visit } from 'unist-util-visit';
+import type { Element, ElementContent, Root } from 'hast';
+import { textOf } from './html';
+
+// The languages highlight.js bundles as common (JavaScript, Python, SQL, ...)
+const lowlight = createLowlight(common);
+
+// Lines to highlight, from the info string: ```js {3-5,8}
+const LINE_RANGES_PATTERN = /\{([\d\s,-]+)\}/;
+
+// Ranges are clamped to the block's lines, so {1-999999999} costs no more
+// than the block itself; ranges that are wholly outside it are ignored
+function parseLineRanges(meta: string, lineCount: number): Set<number> {
+  const lines = new Set<number>();
+  const match = meta.match(LINE_RANGES_PATTERN);
+  if (!match) return lines;
+
+  for (const range of match[1].split(',')) {
+    const [start, end = start] = range.split('-').map((bound) => parseInt(bound, 10));
+    if (isNaN(start) || isNaN(end)) continue;
+    for (let line = Math.max(start, 1); line <= Math.min(end, lineCount); line++) lines.add(line);
+  }
+
+  return lines;
+}
+
+// Split highlighted code into lines, closing and reopening the token spans
+// that run across line breaks
+function splitLines(nodes: ElementContent[]): ElementContent[][] {
+  const lines: ElementContent[][] = [[]];
+
+  for (const node of nodes) {
+    const parts = node.type === 'text'
+      ? node.value.split('\n').map((value): ElementContent[] => (value ? [{ type: 'text', value }] : []))
+      : node.type === 'element'
+        ? splitLines(node.children).map((children) => (children.length > 0 ? [{ ...node, children }] : []))
+        : [[node]];
+
+    parts.forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      lines[lines.length - 1].push(...part);
+    });
+  }
+
+  return lines;
+}
+
+// Highlight fenced code in the language named by its info string, and wrap
+// each line in a numbered span so lines can be highlighted. Line numbers are
+// drawn by CSS (styles/globals.css), so copying the code leaves them out
+export function rehypeCodeBlocks() {
+  return (tree: Root) => {
+    visit(tree, 'element', (node: Element) => {
+      if (node.tagName !== 'pre') return;
+
+      const code = node.children.find(
+        (child): child is Element => child.type === 'element' && child.tagName === 'code'
+      );
+      if (!code) return;
+
+      const classNames = Array.isArray(code.properties.className) ? code.properties.className : [];
+      const languageClass = classNames.find((name) => String(name).startsWith('language-'));
+      const language = languageClass ? String(languageClass).slice('language-'.length) : null;
+      const text = textOf(code).replace(/\n$/, '');
+
+      const tokens: ElementContent[] = language && lowlight.registered(language)
+        ? lowlight.highlight(language, text).children as ElementContent[]
+        : [{ type: 'text', value: text }];
+
+      const meta = typeof code.data?.meta === 'string' ? code.data.meta : '';
+      const lines = splitLines(tokens);
+      const highlightedLines = parseLineRanges(meta, lines.length);
+
+      code.children = [];
+      lines.forEach((line, index) => {
+        const number = index + 1;
+        if (index > 0) code.children.push({ type: 'text', value: '\n' });
+        code.children.push({
+          type: 'element',
+          tagName: 'span',
+          properties: {
+            className: highlightedLines.has(number) ? ['code-line', 'code-line-highlighted'] : ['code-line'],
+            dataLine: number
+          },
+          children: line
+        });
+      });
+
+      code.properties.className = ['hljs', ...classNames];
+      if (language) node.properties.dataLanguage = language;
+    });
+  };
+}
@@ -0,0 +1,32 @@
+// HttpOnly cookie holding the Supabase access token, so server-rendered pages
+// can recognise the owner of a page (the Supabase client itself uses localStorage).
+// Set by /api/session
+export const SESSION_COOKIE = 'borrd-session';
+
+// Cookie remembering that the password of a page was entered
+export function unlockCookieName(pageId: number): string {
+  return `borrd-unlock-${pageId}`;
+}
+
+interface CookieOptions {
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  path?: string;
+}
+
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path || '/'}`, 'SameSite=Lax'];
+
+  if (options.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  }
+  if (options.httpOnly) {
+    parts.push('HttpOnly');
+  }
+  if (options.secure) {
+    parts.push('Secure');
+  }
+
+  return parts.join('; ');
+}
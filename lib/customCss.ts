@@ -0,0 +1,257 @@
+import postcss, { AtRule, ChildNode, Container, CssSyntaxError, Declaration, Rule } from 'postcss';
+import selectorParser from 'postcss-selector-parser';
+import valueParser from 'postcss-value-parser';
+import type { StrippedContent } from './html';
+import { THEME_SCOPE } from './themes';
+import { getSiteUrl } from './seo';
+import { storagePublicUrl } from './urls';
+
+// At-rules whose rules are scoped like top-level ones
+const GROUPING_AT_RULES = ['media', 'supports', 'container'];
+
+// Functions that take URLs, as they read once escapes are decoded
+const URL_FUNCTION_PATTERN = /(^|[^\w-])(url|src|(-webkit-)?image-set)\s*\(/i;
+
+// Properties browsers have run scripts from
+const DROPPED_PROPERTIES = ['behavior', '-moz-binding'];
+
+// position: fixed (or a var() that could turn out to be fixed) would let a
+// page cover the site around it
+const ALLOWED_POSITIONS = ['static', 'relative', 'absolute', 'sticky', 'inherit', 'initial', 'unset', 'revert'];
+
+// Functions whose arguments are URLs. image-set() also takes bare strings
+const URL_FUNCTIONS = ['url', 'src'];
+const IMAGE_SET_FUNCTIONS = ['image-set', '-webkit-image-set'];
+
+interface SanitizeContext {
+  stripped: StrippedContent[];
+  // Lines before the CSS in the document it was written in
+  lineOffset: number;
+}
+
+export interface SanitizedCss {
+  css: string;
+  // What was taken out, for the editor and the dashboard to show
+  stripped: StrippedContent[];
+}
+
+// CSS escapes (\75 rl, \() decoded, so escaped names are checked like plain ones
+function unescapeCss(value: string): string {
+  return value.replace(/\\([0-9a-f]{1,6}\s?|[^\n0-9a-f])/gi, (_match, escaped: string) =>
+    /^[0-9a-f]/i.test(escaped) ? String.fromCodePoint(parseInt(escaped, 16) || 0xfffd) : escaped
+  );
+}
+
+// Stands in for the site's own URL when NEXT_PUBLIC_SITE_URL isn't set, so
+// relative URLs resolve to an origin of their own
+const RELATIVE_BASE = 'https://relative.invalid';
+
+// Paths on this site, uploaded media and inline images and fonts; nothing that
+// would let another site see who reads the page. URLs are resolved the way
+// browsers do (e.g. /\\host is //host) before their origin is compared
+function isAllowedUrl(url: string): boolean {
+  const trimmed = url.trim();
+  if (/^data:(image|font)\//i.test(trimmed)) return true;
+
+  const base = new URL(getSiteUrl() || RELATIVE_BASE);
+  let resolved: URL;
+  try {
+    resolved = new URL(trimmed, base);
+  } catch {
+    return false;
+  }
+
+  if (resolved.origin === base.origin) return true;
+
+  const storage = new URL(storagePublicUrl(''), base);
+  return resolved.origin === storage.origin && resolved.pathname.startsWith(storage.pathname);
+}
+
+// The URLs in a declaration value, read from its parsed form so escaped
+// quotes can't hide where a string ends, then unescaped one by one
+function findUrls(nodes: valueParser.Node[]): string[] {
+  return nodes.flatMap((node): string[] => {
+    if (node.type !== 'function') return [];
+
+    const name = unescapeCss(node.value).toLowerCase();
+    if (URL_FUNCTIONS.includes(name)) {
+      // Only a plain url( has its argument kept whole by the parser
+      const [argument] = node.nodes;
+      const url = node.nodes.length === 1 && argument.type === 'string' ? argument.value : valueParser.stringify(node.nodes);
+      return [unescapeCss(url)];
+    }
+
+    const strings = IMAGE_SET_FUNCTIONS.includes(name)
+      ? node.nodes.filter((child) => child.type === 'string').map((child) => unescapeCss(child.value))
+      : [];
+    return [...strings, ...findUrls(node.nodes)];
+  });
+}
+
+function strip(context: SanitizeContext, node: ChildNode, content: string, reason: string) {
+  const line = node.source?.start?.line;
+  context.stripped.push({ content, reason, line: line ? line + context.lineOffset : null });
+  node.remove();
+}
+
+function sanitizeDeclaration(node: Declaration, context: SanitizeContext) {
+  const property = unescapeCss(node.prop).toLowerCase();
+  const value = unescapeCss(node.value);
+  const source = `${node.prop}: ${node.value}`;
+
+  if (DROPPED_PROPERTIES.includes(property) || /expression\s*\(/i.test(value)) {
+    strip(context, node, source, 'This property can run scripts, so it is not allowed');
+    return;
+  }
+
+  if (property === 'position' && !ALLOWED_POSITIONS.includes(value.trim().toLowerCase())) {
+    strip(context, node, source, 'Only static, relative, absolute and sticky positions are allowed, so pages can\'t cover the site');
+    return;
+  }
+
+  // An escape can split a function name where the parser doesn't, e.g. u\72 l(
+  if (URL_FUNCTION_PATTERN.test(value) && !URL_FUNCTION_PATTERN.test(node.value)) {
+    strip(context, node, source, 'url() can\'t be written with escapes');
+    return;
+  }
+
+  const foreignUrl = findUrls(valueParser(node.value).nodes).find((url) => !isAllowedUrl(url));
+  if (foreignUrl !== undefined) {
+    strip(context, node, source, 'Only images and fonts uploaded here, or paths on this site, can be used in url()');
+  }
+}
+
+// How the selectors of rules are scoped:
+// - top: top-level rules, which are scoped to the page
+// - inside: rules nested in a scoped rule, already inside the page
+// - page: rules nested in one that selects the page itself, which mustn't reach its siblings
+// - none: keyframes and @font-face, which don't select anything
+type Scope = 'top' | 'inside' | 'page' | 'none';
+
+// Selectors that would match outside the page, with the reason
+class ScopeError extends Error {}
+
+const SIBLING_COMBINATORS = ['+', '~'];
+
+function isPageSelector(node: selectorParser.Node | undefined): boolean {
+  return (node?.type === 'tag' && ['html', 'body'].includes(node.value.toLowerCase()))
+    || (node?.type === 'pseudo' && node.value.toLowerCase() === ':root');
+}
+
+// html, body and :root stand for the page; every other selector only matches
+// inside it. Returns the scoped selectors, and whether one selects the page
+function scopeSelectors(selectors: string): { selector: string; selectsPage: boolean } {
+  let selectsPage = false;
+
+  const selector = selectorParser((root) => {
+    root.each((selector) => {
+      const first = selector.first;
+      if (first?.type === 'combinator') {
+        throw new ScopeError('Selectors can\'t start with a combinator, since they would match outside the page');
+      }
+
+      if (isPageSelector(first)) {
+        const next = selector.at(1);
+        if (next?.type === 'combinator' && SIBLING_COMBINATORS.includes(next.value.trim())) {
+          throw new ScopeError('Elements next to the page are outside it, so they can\'t be selected');
+        }
+        first.replaceWith(selectorParser.className({ value: THEME_SCOPE }));
+        selectsPage = true;
+      } else {
+        if (first) first.spaces.before = '';
+        selector.prepend(selectorParser.combinator({ value: ' ' }));
+        selector.prepend(selectorParser.className({ value: THEME_SCOPE }));
+      }
+    });
+  }).processSync(selectors);
+
+  return { selector, selectsPage };
+}
+
+// Rules nested in one that selects the page are relative to the page, so
+// + and ~ in them would reach what comes after it
+function checkNestedInPage(selectors: string) {
+  selectorParser((root) => {
+    root.walkCombinators((combinator) => {
+      if (SIBLING_COMBINATORS.includes(combinator.value.trim())) {
+        throw new ScopeError('Elements next to the page are outside it, so they can\'t be selected');
+      }
+    });
+  }).processSync(selectors);
+}
+
+function sanitizeRule(node: Rule, context: SanitizeContext, scope: Scope) {
+  let childScope = scope;
+
+  try {
+    if (scope === 'top') {
+      const { selector, selectsPage } = scopeSelectors(node.selector);
+      node.selector = selector;
+      childScope = selectsPage ? 'page' : 'inside';
+    } else if (scope === 'page') {
+      checkNestedInPage(node.selector);
+    }
+  } catch (error) {
+    const reason = error instanceof ScopeError ? error.message : 'This selector could not be read';
+    strip(context, node, node.selector, reason);
+    return;
+  }
+
+  sanitizeChildren(node, context, childScope);
+}
+
+function sanitizeAtRule(node: AtRule, context: SanitizeContext, scope: Scope) {
+  const name = node.name.toLowerCase();
+
+  if (GROUPING_AT_RULES.includes(name)) {
+    sanitizeChildren(node, context, scope);
+  } else if (name.replace(/^-[a-z]+-/, '') === 'keyframes' || name === 'font-face') {
+    sanitizeChildren(node, context, 'none');
+  } else if (name === 'import') {
+    strip(context, node, `@import ${node.params}`, 'Stylesheets can\'t load other stylesheets');
+  } else {
+    strip(context, node, `@${node.name}`, 'This at-rule is not allowed. Available: @media, @supports, @container, @keyframes, @font-face');
+  }
+}
+
+function sanitizeChildren(container: Container, context: SanitizeContext, scope: Scope) {
+  // Copied, since nodes remove themselves while being walked
+  for (const node of [...(container.nodes ?? [])]) {
+    if (node.type === 'comment') {
+      node.remove();
+    } else if (node.type === 'decl') {
+      sanitizeDeclaration(node, context);
+    } else if (node.type === 'rule') {
+      sanitizeRule(node, context, scope);
+    } else if (node.type === 'atrule') {
+      sanitizeAtRule(node, context, scope);
+    }
+  }
+}
+
+// Parse a page's `css` or a user's stylesheet, scope it to the page (the
+// element with the THEME_SCOPE class) and drop what could reach outside it:
+// @import, url() to other sites, position: fixed and script-running properties.
+// CSS that can't be parsed is left out as a whole
+export function sanitizeCss(css: string | null | undefined, lineOffset: number = 0): SanitizedCss {
+  const context: SanitizeContext = { stripped: [], lineOffset };
+  if (!css?.trim()) return { css: '', stripped: [] };
+
+  let root;
+  try {
+    root = postcss.parse(css);
+  } catch (error) {
+    const syntaxError = error as CssSyntaxError;
+    context.stripped.push({
+      content: 'css',
+      reason: `${syntaxError.reason || 'The CSS could not be parsed'}, so none of it is used`,
+      line: syntaxError.line ? syntaxError.line + lineOffset : null
+    });
+    return { css: '', stripped: context.stripped };
+  }
+
+  sanitizeChildren(root, context, 'top');
+
+  // The CSS ends up in a <style> element, which a "</style>" in a string would close
+  return { css: root.toString().replace(/<\/(style)/gi, '\\3c /$1'), stripped: context.stripped };
+}
@@ -0,0 +1,159 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Above this many cells the LCS table gets too large for the browser,
+// so the changed middle section is shown as a plain remove/add block
+const MAX_LCS_CELLS = 4_000_000;
+
+// Line-based diff between two versions of a document
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Trim the common prefix and suffix so the LCS only covers the changed region
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'same', text: oldLines[i], oldNumber: i + 1, newNumber: i + 1 });
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    oldMiddle.forEach((text, i) => result.push({ type: 'removed', text, oldNumber: start + i + 1 }));
+    newMiddle.forEach((text, i) => result.push({ type: 'added', text, newNumber: start + i + 1 }));
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths: number[][] = Array.from({ length: oldMiddle.length + 1 }, () =>
+      new Array(newMiddle.length + 1).fill(0)
+    );
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'same', text: oldMiddle[i], oldNumber: start + i + 1, newNumber: start + j + 1 });
+        i++;
+        j++;
+      } else if (i < oldMiddle.length && (j >= newMiddle.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        result.push({ type: 'removed', text: oldMiddle[i], oldNumber: start + i + 1 });
+        i++;
+      } else {
+        result.push({ type: 'added', text: newMiddle[j], newNumber: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  const oldOffset = oldEnd - newEnd;
+  for (let j = newEnd; j < newLines.length; j++) {
+    result.push({ type: 'same', text: newLines[j], oldNumber: j + oldOffset + 1, newNumber: j + 1 });
+  }
+
+  return result;
+}
+
+// Pair removed and added lines so a diff can be shown in two columns
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.type === 'same') {
+      rows.push({ left: line, right: line });
+      index++;
+      continue;
+    }
+
+    // Collect a run of changes and line up removals against additions
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type !== 'same') {
+      if (lines[index].type === 'removed') {
+        removed.push(lines[index]);
+      } else {
+        added.push(lines[index]);
+      }
+      index++;
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+
+  return rows;
+}
+
+// Count added and removed lines for a short summary
+export function diffStats(lines: DiffLine[]) {
+  return {
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length
+  };
+}
+
+// Combine two versions into one document, wrapping every place where they
+// differ in git-style conflict markers for the author to resolve by hand
+export function mergeWithConflictMarkers(
+  theirs: string,
+  ours: string,
+  theirsLabel: string = 'saved version',
+  oursLabel: string = 'your version'
+): string {
+  const lines = diffLines(theirs, ours);
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'same') {
+      output.push(lines[index].text);
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < lines.length && lines[index].type !== 'same') {
+      if (lines[index].type === 'removed') {
+        removed.push(lines[index].text);
+      } else {
+        added.push(lines[index].text);
+      }
+      index++;
+    }
+
+    output.push(`<<<<<<< ${theirsLabel}`, ...removed, '=======', ...added, `>>>>>>> ${oursLabel}`);
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,31 @@
+import { getCalloutType } from '../blocks';
+import { checkOptions, Directive } from './directive';
+
+// !callout(warning, text, title="...") is a one-paragraph callout, compiled
+// like a > [!warning] blockquote (see lib/blocks.ts), so types are read the same way
+export const callout: Directive = {
+  name: 'callout',
+  usage: '!callout(note | tip | important | warning | caution, text, title="Title")',
+  compile(call) {
+    const optionsError = checkOptions(call, ['title']);
+    if (optionsError) return { error: optionsError };
+
+    if (call.args.length !== 2) {
+      return { error: '!callout takes a type and its text' };
+    }
+
+    const [name, text] = call.args;
+    const title = call.options.title || name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+
+    return {
+      element: {
+        tagName: 'aside',
+        properties: { dataCallout: getCalloutType(name) },
+        children: [
+          { type: 'element', tagName: 'p', properties: { className: ['callout-title'] }, children: [{ type: 'text', value: title }] },
+          { type: 'element', tagName: 'p', properties: {}, children: [{ type: 'text', value: text }] }
+        ]
+      }
+    };
+  }
+};
@@ -0,0 +1,40 @@
+import type { ElementContent, Properties } from 'hast';
+
+// A paragraph consisting only of !name(...) is a directive. The arguments are
+// separated by commas; key=value arguments are options, and values with commas
+// or leading spaces can be quoted: !youtube(dQw4w9WgXcQ, title="Intro, part 1")
+export interface DirectiveCall {
+  name: string;
+  args: string[];
+  options: Record<string, string>;
+}
+
+// The element a directive's paragraph is compiled to
+export interface DirectiveElement {
+  tagName: string;
+  properties: Properties;
+  children?: ElementContent[];
+}
+
+export type DirectiveResult = { element: DirectiveElement } | { error: string };
+
+// To add a directive, write a module exporting one of these and list it in
+// DIRECTIVES in ./index.ts. Directives compile to plain elements, stored with
+// the page like the rest of it; CustomMarkdown swaps in components for
+// elements that need them (e.g. the audio and video players)
+export interface Directive {
+  name: string;
+  // How it is written, shown when it is used wrongly
+  usage: string;
+  compile(call: DirectiveCall): DirectiveResult;
+}
+
+// Helper function for directives to reject options they don't know
+export function checkOptions(call: DirectiveCall, known: string[]): string | null {
+  const unknown = Object.keys(call.options).filter((name) => !known.includes(name));
+  if (unknown.length === 0) return null;
+
+  return known.length > 0
+    ? `Unknown option ${unknown[0]} (expected ${known.join(', ')})`
+    : `!${call.name} takes no options`;
+}
@@ -0,0 +1,51 @@
+import { checkOptions, Directive } from './directive';
+
+const MAX_COLUMNS = 4;
+
+// Written out in full so Tailwind finds them
+const COLUMN_CLASSES: Record<number, string> = {
+  1: 'sm:grid-cols-1',
+  2: 'sm:grid-cols-2',
+  3: 'sm:grid-cols-3',
+  4: 'sm:grid-cols-4'
+};
+
+// !gallery(url, url, ..., columns=3) shows images in a grid, one column on
+// small screens
+export const gallery: Directive = {
+  name: 'gallery',
+  usage: '!gallery(image URL, image URL, ..., columns=3)',
+  compile(call) {
+    const optionsError = checkOptions(call, ['columns']);
+    if (optionsError) return { error: optionsError };
+
+    if (call.args.length === 0) {
+      return { error: '!gallery needs at least one image URL' };
+    }
+
+    const columns = call.options.columns ? Number(call.options.columns) : Math.min(call.args.length, 3);
+    if (!Number.isInteger(columns) || columns < 1 || columns > MAX_COLUMNS) {
+      return { error: `columns must be a number from 1 to ${MAX_COLUMNS}` };
+    }
+
+    return {
+      element: {
+        tagName: 'div',
+        properties: {
+          className: ['not-prose', 'my-6', 'grid', 'grid-cols-1', COLUMN_CLASSES[columns], 'gap-4']
+        },
+        children: call.args.map((src) => ({
+          type: 'element',
+          tagName: 'img',
+          properties: {
+            src,
+            alt: '',
+            loading: 'lazy',
+            className: ['w-full', 'h-full', 'object-cover', 'rounded-lg']
+          },
+          children: []
+        }))
+      }
+    };
+  }
+};
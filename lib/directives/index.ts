@@ -0,0 +1,84 @@
+import type { DirectiveCall, Directive, DirectiveResult } from './directive';
+import { audio, video } from './media';
+import { gallery } from './gallery';
+import { youtube } from './youtube';
+import { table } from './table';
+import { list } from './list';
+import { callout } from './callout';
+
+export type { DirectiveCall, Directive, DirectiveElement, DirectiveResult } from './directive';
+
+// Every directive pages may use; see ./directive.ts for adding one
+const DIRECTIVES: Directive[] = [audio, video, gallery, youtube, table, list, callout];
+
+const DIRECTIVE_PATTERN = /^!([a-z][a-z0-9-]*)\(([\s\S]*)\)$/;
+const OPTION_PATTERN = /^([a-z][a-z0-9-]*)\s*=\s*([\s\S]*)$/;
+
+function unquote(value: string): string {
+  const quote = value[0];
+  return (quote === '"' || quote === "'") && value.length > 1 && value[value.length - 1] === quote
+    ? value.slice(1, -1)
+    : value;
+}
+
+// Split on commas outside quotes. An unclosed quote runs to the end
+function splitArguments(source: string): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of source.split('')) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      pieces.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  pieces.push(current);
+  return pieces.map((piece) => piece.trim()).filter(Boolean);
+}
+
+// Parse the text of a paragraph as a directive, or return null when it isn't one
+export function parseDirective(text: string): DirectiveCall | null {
+  const match = text.trim().match(DIRECTIVE_PATTERN);
+  if (!match) return null;
+
+  const args: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (const piece of splitArguments(match[2])) {
+    const option = piece.match(OPTION_PATTERN);
+    if (option) {
+      options[option[1]] = unquote(option[2].trim());
+    } else {
+      args.push(unquote(piece));
+    }
+  }
+
+  return { name: match[1], args, options };
+}
+
+export function getDirective(name: string): Directive | undefined {
+  return DIRECTIVES.find((directive) => directive.name === name);
+}
+
+// Compile a parsed directive, or explain why it can't be
+export function compileDirective(call: DirectiveCall): DirectiveResult {
+  const directive = getDirective(call.name);
+  if (!directive) {
+    return {
+      error: `Unknown directive !${call.name}. Available: ${DIRECTIVES.map((known) => `!${known.name}`).join(', ')}`
+    };
+  }
+
+  const result = directive.compile(call);
+  return 'error' in result ? { error: `${result.error}. Usage: ${directive.usage}` } : result;
+}
@@ -0,0 +1,35 @@
+import type { ElementContent } from 'hast';
+import { checkOptions, Directive } from './directive';
+
+// !list(item, item, ..., ordered=true) lists its arguments, numbered when
+// ordered is true
+export const list: Directive = {
+  name: 'list',
+  usage: '!list(item, item, ..., ordered=true)',
+  compile(call) {
+    const optionsError = checkOptions(call, ['ordered']);
+    if (optionsError) return { error: optionsError };
+
+    if (call.args.length === 0) {
+      return { error: '!list needs at least one item' };
+    }
+
+    const { ordered = 'false' } = call.options;
+    if (ordered !== 'true' && ordered !== 'false') {
+      return { error: 'ordered must be true or false' };
+    }
+
+    return {
+      element: {
+        tagName: ordered === 'true' ? 'ol' : 'ul',
+        properties: {},
+        children: call.args.map((item): ElementContent => ({
+          type: 'element',
+          tagName: 'li',
+          properties: {},
+          children: [{ type: 'text', value: item }]
+        }))
+      }
+    };
+  }
+};
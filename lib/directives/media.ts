@@ -0,0 +1,23 @@
+import { checkOptions, Directive } from './directive';
+
+// !audio(url) and !video(url), as inserted by the editor's upload buttons.
+// CustomMarkdown renders the elements with the audio and video players
+function mediaDirective(name: 'audio' | 'video'): Directive {
+  return {
+    name,
+    usage: `!${name}(url)`,
+    compile(call) {
+      const optionsError = checkOptions(call, []);
+      if (optionsError) return { error: optionsError };
+
+      if (call.args.length !== 1) {
+        return { error: `!${name} takes the URL of one ${name} file` };
+      }
+
+      return { element: { tagName: name, properties: { src: call.args[0] } } };
+    }
+  };
+}
+
+export const audio = mediaDirective('audio');
+export const video = mediaDirective('video');
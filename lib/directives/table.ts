@@ -0,0 +1,48 @@
+import type { ElementContent } from 'hast';
+import { checkOptions, Directive } from './directive';
+
+function row(cells: string[], tagName: 'th' | 'td'): ElementContent {
+  return {
+    type: 'element',
+    tagName: 'tr',
+    properties: {},
+    children: cells.map((value): ElementContent => ({
+      type: 'element',
+      tagName,
+      properties: {},
+      children: [{ type: 'text', value }]
+    }))
+  };
+}
+
+// !table(Name | Role, Ada | Engineer, ...) makes a table of one row per
+// argument, with cells separated by |. The first row is the header
+export const table: Directive = {
+  name: 'table',
+  usage: '!table(header | header, cell | cell, ...)',
+  compile(call) {
+    const optionsError = checkOptions(call, []);
+    if (optionsError) return { error: optionsError };
+
+    if (call.args.length < 2) {
+      return { error: '!table needs a header row and at least one row' };
+    }
+
+    const [header, ...rows] = call.args.map((arg) => arg.split('|').map((cell) => cell.trim()));
+    const uneven = rows.findIndex((cells) => cells.length !== header.length);
+    if (uneven !== -1) {
+      return { error: `Row ${uneven + 1} doesn't have the ${header.length} cells the header has` };
+    }
+
+    return {
+      element: {
+        tagName: 'table',
+        properties: {},
+        children: [
+          { type: 'element', tagName: 'thead', properties: {}, children: [row(header, 'th')] },
+          { type: 'element', tagName: 'tbody', properties: {}, children: rows.map((cells) => row(cells, 'td')) }
+        ]
+      }
+    };
+  }
+};
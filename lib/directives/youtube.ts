@@ -0,0 +1,60 @@
+import { checkOptions, Directive } from './directive';
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+// Video URLs people paste: watch?v=ID, youtu.be/ID, /embed/ID and /shorts/ID
+const VIDEO_URL_PATTERNS = [
+  /^https?:\/\/(?:www\.|m\.)?youtube\.com\/watch\?(?:.*&)?v=([A-Za-z0-9_-]{11})/,
+  /^https?:\/\/youtu\.be\/([A-Za-z0-9_-]{11})/,
+  /^https?:\/\/(?:www\.)?youtube(?:-nocookie)?\.com\/(?:embed|shorts)\/([A-Za-z0-9_-]{11})/
+];
+
+function getVideoId(value: string): string | null {
+  if (VIDEO_ID_PATTERN.test(value)) return value;
+
+  for (const pattern of VIDEO_URL_PATTERNS) {
+    const match = value.match(pattern);
+    if (match) return match[1];
+  }
+
+  return null;
+}
+
+// !youtube(video ID or URL, start=seconds, title="...") embeds the player,
+// from the domain that doesn't set cookies until the video is played
+export const youtube: Directive = {
+  name: 'youtube',
+  usage: '!youtube(video ID or URL, start=seconds, title="Video title")',
+  compile(call) {
+    const optionsError = checkOptions(call, ['start', 'title']);
+    if (optionsError) return { error: optionsError };
+
+    if (call.args.length !== 1) {
+      return { error: '!youtube takes one video' };
+    }
+
+    const videoId = getVideoId(call.args[0]);
+    if (!videoId) {
+      return { error: `${call.args[0]} is not a YouTube video ID or URL` };
+    }
+
+    const { start, title } = call.options;
+    if (start !== undefined && !/^\d+$/.test(start)) {
+      return { error: 'start must be a number of seconds' };
+    }
+
+    return {
+      element: {
+        tagName: 'iframe',
+        properties: {
+          src: `https://www.youtube-nocookie.com/embed/${videoId}${start ? `?start=${start}` : ''}`,
+          title: title || 'YouTube video',
+          allow: 'accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture',
+          allowFullScreen: true,
+          loading: 'lazy',
+          className: ['w-full', 'aspect-video', 'rounded-lg', 'border-0']
+        }
+      }
+    };
+  }
+};
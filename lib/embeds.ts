@@ -0,0 +1,127 @@
+import type { Element, ElementContent, Root, RootContent } from 'hast';
+import { visit } from 'unist-util-visit';
+import { supabase } from './auth';
+import { loadPageLinks, MAX_EMBED_DEPTH } from './pageLinks';
+import { isPageLive, PageSchedule } from './pageStatus';
+import { getRenderedPage, PublicPageProps, PublicPageRecord } from './publicPages';
+import { textOf } from './html';
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+interface EmbedContext {
+  userId: string;
+  // Every page looked up, live or not, since their schedules decide when the
+  // embedding page has to be rendered again
+  pages: PageSchedule[];
+  // Pages whose content ended up in the embedding page
+  embeddedIds: number[];
+}
+
+// Only live pages that anyone with the link may read are embedded: the content
+// of password-protected and private pages never ends up in another page
+function isEmbeddable(page: PublicPageRecord): boolean {
+  const visibility = page.visibility || 'public';
+  return isPageLive(page) && (visibility === 'public' || visibility === 'unlisted');
+}
+
+// Headings are matched loosely, so ![[bio#Contact me]] finds "## Contact Me!"
+function headingKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function headingDepth(node: RootContent): number | null {
+  return node.type === 'element' && HEADING_TAGS.includes(node.tagName) ? Number(node.tagName[1]) : null;
+}
+
+// The part of a page from one of its headings down to the next heading of the
+// same or a higher level
+function extractSection(tree: Root, heading: string): Root | null {
+  const key = headingKey(heading);
+  const start = tree.children.findIndex((node) => headingDepth(node) !== null && headingKey(textOf(node)) === key);
+  if (start === -1) return null;
+
+  const depth = headingDepth(tree.children[start]) as number;
+  let end = start + 1;
+  while (end < tree.children.length) {
+    const nextDepth = headingDepth(tree.children[end]);
+    if (nextDepth !== null && nextDepth <= depth) break;
+    end++;
+  }
+
+  return { type: 'root', children: tree.children.slice(start, end) };
+}
+
+// Fill the ![[slug]] placeholders in a tree with the pages they embed. chain
+// holds the slugs being embedded on the way here: embedding one of them again
+// would never end, so those placeholders are left empty, like the ones nested
+// deeper than MAX_EMBED_DEPTH and the ones for pages that can't be embedded
+async function expandEmbeds(tree: Root, chain: string[], context: EmbedContext): Promise<void> {
+  const placeholders: Element[] = [];
+  visit(tree, 'element', (node: Element) => {
+    if (typeof node.properties.dataEmbed === 'string') placeholders.push(node);
+  });
+
+  const slugs = placeholders
+    .map((placeholder) => placeholder.properties.dataEmbed as string)
+    .filter((slug) => !chain.includes(slug));
+
+  if (slugs.length === 0 || chain.length > MAX_EMBED_DEPTH) return;
+
+  const { data: pages, error } = await supabase
+    .from('pages')
+    .select('*')
+    .eq('user_id', context.userId)
+    .in('slug', Array.from(new Set(slugs)))
+    .is('deleted_at', null);
+
+  if (error) {
+    console.error('Error fetching embedded pages:', error);
+    throw error;
+  }
+
+  const bySlug = new Map<string, PublicPageRecord>();
+  for (const page of pages || []) {
+    bySlug.set(page.slug, page);
+    context.pages.push(page);
+  }
+
+  for (const placeholder of placeholders) {
+    const slug = placeholder.properties.dataEmbed as string;
+    const page = bySlug.get(slug);
+    if (chain.includes(slug) || !page || !isEmbeddable(page)) continue;
+
+    // The stored tree may be shared with other placeholders for the same page
+    let content: Root | null = structuredClone(getRenderedPage(page).ast);
+    const heading = placeholder.properties.dataEmbedHeading;
+    if (typeof heading === 'string') {
+      content = extractSection(content, heading);
+      if (!content) continue;
+    }
+
+    await expandEmbeds(content, [...chain, slug], context);
+    placeholder.children = content.children as ElementContent[];
+    context.embeddedIds.push(page.id);
+  }
+}
+
+// Helper function to fill in what a page shows of the author's other pages:
+// the pages it embeds, and where its [[slug]] links lead. Also returns those
+// pages, live or not, whose schedules decide when this has to be done again
+export async function withConnectedPages(
+  props: PublicPageProps,
+  page: PublicPageRecord,
+  username: string | null
+): Promise<{ props: PublicPageProps; connectedPages: PageSchedule[] }> {
+  if (!props.ast || !page.user_id) return { props, connectedPages: [] };
+
+  const ast = structuredClone(props.ast);
+  const context: EmbedContext = { userId: page.user_id, pages: [], embeddedIds: [] };
+  await expandEmbeds(ast, [page.slug], context);
+
+  const { links, connectedPages } = await loadPageLinks(page, username, context.embeddedIds);
+
+  return {
+    props: { ...props, ast, links },
+    connectedPages: [...context.pages, ...connectedPages]
+  };
+}
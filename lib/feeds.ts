@@ -0,0 +1,279 @@
+import { Fragment, jsx, jsxs } from 'react/jsx-runtime';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { toJsxRuntime } from 'hast-util-to-jsx-runtime';
+import { visit } from 'unist-util-visit';
+import type { Root } from 'hast';
+import { supabase } from './auth';
+import { getPublishedDate, getRenderedPage, PublicPageRecord } from './publicPages';
+import { isPageListed } from './visibility';
+import { SITE_NAME } from './seo';
+import { feedPath, pagePath, storagePublicUrl, STORAGE_BUCKETS } from './urls';
+import { escapeXml } from './xml';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+// full: the whole rendered page in each entry; excerpt: only its description
+export type FeedMode = 'full' | 'excerpt';
+
+export const FEED_FORMATS: FeedFormat[] = ['rss', 'atom', 'json'];
+
+// Feed readers poll often; the CDN answers them for a while before asking again
+export const FEED_CACHE_CONTROL = 'public, max-age=0, s-maxage=900, stale-while-revalidate=3600';
+
+const FEED_LIMIT = 50;
+
+// Pages are fetched newest published first, then sorted by the date in their
+// frontmatter when they have one. Fetching this many times FEED_LIMIT leaves
+// room for pages whose date puts them ahead of pages published after them
+const FEED_OVERFETCH = 3;
+
+// What a feed entry is built from (see toFeedItem); markdown is only compiled
+// for pages saved before the current renderer
+const FEED_PAGE_COLUMNS = 'id, slug, markdown, user_id, status, publish_at, unpublish_at, visibility, frontmatter, title, description, tags, media, rendered_ast, render_version, created_at, updated_at';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  contentHtml: string | null;
+  published: string;
+  updated: string;
+  tags: string[];
+  image: string | null;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  homeUrl: string;
+  feedUrl: string;
+  author: string;
+  updated: string;
+  items: FeedItem[];
+}
+
+export interface FeedOptions {
+  username: string;
+  folder: { id: number; name: string } | null;
+  mode: FeedMode;
+  format: FeedFormat;
+  // Absolute base URL links are resolved against
+  siteUrl: string;
+}
+
+export function isFeedFormat(value: unknown): value is FeedFormat {
+  return typeof value === 'string' && FEED_FORMATS.includes(value as FeedFormat);
+}
+
+// Helper function to load the pages an author's feed lists: live public pages,
+// newest first by the date they were published
+export async function loadFeedPages(userId: string, folderId: number | null): Promise<PublicPageRecord[]> {
+  // The schedule rules of lib/pageStatus.ts, so the limit only counts live pages
+  const now = new Date().toISOString();
+  let query = supabase
+    .from('pages')
+    .select(FEED_PAGE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('visibility', 'public')
+    .is('deleted_at', null)
+    .or('status.is.null,status.in.(published,scheduled)')
+    .or(`publish_at.is.null,publish_at.lte."${now}"`)
+    .or(`unpublish_at.is.null,unpublish_at.gt."${now}"`);
+
+  if (folderId) {
+    query = query.eq('folder_id', folderId);
+  }
+
+  const { data: pages, error } = await query
+    .order('publish_at', { ascending: false, nullsFirst: false })
+    .limit(FEED_LIMIT * FEED_OVERFETCH);
+
+  if (error) {
+    console.error('Error fetching feed pages:', error);
+    return [];
+  }
+
+  return (pages || [])
+    .filter(page => isPageListed(page))
+    .sort((a, b) => Date.parse(getPublishedDate(b)) - Date.parse(getPublishedDate(a)))
+    .slice(0, FEED_LIMIT);
+}
+
+// Feed readers show entries outside the site, so every URL has to be absolute.
+// Paths into the storage buckets (images/photo.jpg) point at Supabase Storage
+function resolveUrl(url: string, pageUrl: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) return url;
+
+  const bucket = url.split('/')[0];
+  if ((STORAGE_BUCKETS as readonly string[]).includes(bucket)) {
+    return storagePublicUrl(url);
+  }
+
+  try {
+    return new URL(url, pageUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+// Render a page's tree to standalone HTML for feed readers
+function renderFeedHtml(ast: Root, pageUrl: string): string {
+  const tree = structuredClone(ast);
+
+  visit(tree, 'element', (node, index, parent) => {
+    // Heading anchors only show on hover, which feed readers don't do
+    if (node.properties.dataHeadingAnchor && parent && index !== undefined) {
+      parent.children.splice(index, 1);
+      return index;
+    }
+
+    for (const name of ['href', 'src', 'poster']) {
+      const value = node.properties[name];
+      if (typeof value === 'string' && value) {
+        node.properties[name] = resolveUrl(value, pageUrl);
+      }
+    }
+
+    // There are no media players in a feed reader; use the browser's own controls
+    if (node.tagName === 'audio' || node.tagName === 'video') {
+      node.properties.controls = true;
+    }
+  });
+
+  return renderToStaticMarkup(toJsxRuntime(tree, { Fragment, jsx, jsxs }));
+}
+
+function toFeedItem(page: PublicPageRecord, username: string, mode: FeedMode, siteUrl: string): FeedItem {
+  const rendered = getRenderedPage(page);
+  const url = `${siteUrl}${pagePath(page.slug, username)}`;
+  const image = page.frontmatter?.image || rendered.media.find(item => item.type === 'image')?.url;
+
+  return {
+    id: url,
+    url,
+    title: rendered.title || page.slug,
+    summary: rendered.description,
+    contentHtml: mode === 'full' ? renderFeedHtml(rendered.ast, url) : null,
+    published: new Date(getPublishedDate(page)).toISOString(),
+    updated: new Date(page.updated_at).toISOString(),
+    tags: rendered.tags,
+    image: image ? resolveUrl(image, url) : null
+  };
+}
+
+// Build an author's feed, or one folder's, from their listed pages
+export async function buildFeed(userId: string, options: FeedOptions): Promise<Feed> {
+  const { username, folder, mode, format, siteUrl } = options;
+  const pages = await loadFeedPages(userId, folder?.id ?? null);
+  const items = pages.map(page => toFeedItem(page, username, mode, siteUrl));
+
+  return {
+    title: folder ? `${folder.name} · ${username}` : username,
+    description: folder ? `Pages by ${username} in ${folder.name} on ${SITE_NAME}` : `Pages by ${username} on ${SITE_NAME}`,
+    homeUrl: `${siteUrl}/`,
+    feedUrl: `${siteUrl}${feedPath(username, format, folder?.id, mode)}`,
+    author: username,
+    updated: items.reduce((latest, item) => (item.updated > latest ? item.updated : latest), new Date(0).toISOString()),
+    items
+  };
+}
+
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+    ...(item.summary ? [`      <description>${escapeXml(item.summary)}</description>`] : []),
+    ...(item.contentHtml ? [`      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>`] : []),
+    ...item.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+    '    </item>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(item.url)}" />`,
+    `    <published>${item.published}</published>`,
+    `    <updated>${item.updated}</updated>`,
+    ...(item.summary ? [`    <summary>${escapeXml(item.summary)}</summary>`] : []),
+    ...(item.contentHtml ? [`    <content type="html">${escapeXml(item.contentHtml)}</content>`] : []),
+    ...item.tags.map(tag => `    <category term="${escapeXml(tag)}" />`),
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.feedUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link href="${escapeXml(feed.homeUrl)}" />`,
+    `  <link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/atom+xml" />`,
+    `  <updated>${feed.updated}</updated>`,
+    `  <author><name>${escapeXml(feed.author)}</name></author>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    authors: [{ name: feed.author }],
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      ...(item.summary ? { summary: item.summary } : {}),
+      // JSON Feed requires content; excerpt feeds carry the summary as text
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary || '' }),
+      ...(item.image ? { image: item.image } : {}),
+      date_published: item.published,
+      date_modified: item.updated,
+      ...(item.tags.length > 0 ? { tags: item.tags } : {})
+    }))
+  }, null, 2);
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case 'atom':
+      return renderAtom(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+    case 'rss':
+    default:
+      return renderRss(feed);
+  }
+}
@@ -0,0 +1,223 @@
+import matter from 'gray-matter';
+import { isPageVisibility, PageVisibility } from './visibility';
+
+// Version of the frontmatter schema below. A document may declare the version
+// it was written for with `schema: 1`; newer versions than this are rejected
+// instead of being half understood
+export const FRONTMATTER_SCHEMA_VERSION = 1;
+
+export const PAGE_FONTS = ['serif', 'sans', 'mono'] as const;
+export const PAGE_LAYOUTS = ['default', 'wide', 'full'] as const;
+export const PAGE_THEMES = ['default', 'paper', 'slate', 'reader', 'terminal'] as const;
+
+export type PageFont = typeof PAGE_FONTS[number];
+export type PageLayout = typeof PAGE_LAYOUTS[number];
+export type PageTheme = typeof PAGE_THEMES[number];
+
+export function isPageTheme(value: unknown): value is PageTheme {
+  return typeof value === 'string' && (PAGE_THEMES as readonly string[]).includes(value);
+}
+
+export interface Frontmatter {
+  schema?: number;
+  title?: string;
+  description?: string;
+  date?: string;
+  tags?: string[];
+  font?: PageFont;
+  background?: string;
+  theme?: PageTheme;
+  layout?: PageLayout;
+  visibility?: PageVisibility;
+  canonical?: string;
+  image?: string;
+  noindex?: boolean;
+  toc?: boolean;
+  html?: boolean;
+  css?: string;
+  // Fields outside the schema are kept as they are
+  [key: string]: unknown;
+}
+
+export interface FrontmatterFieldError {
+  field: string;
+  message: string;
+  // Line of the document the field is on (1-based), when it can be found
+  line: number | null;
+}
+
+export interface ParsedFrontmatter {
+  frontmatter: Frontmatter;
+  content: string;
+  errors: FrontmatterFieldError[];
+}
+
+type FieldResult = { value: unknown } | { error: string };
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+// Also the limit of the stylesheet users set for all their pages
+export const MAX_CSS_LENGTH = 20000;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+function oneOf(values: readonly string[]) {
+  return (value: unknown): FieldResult =>
+    typeof value === 'string' && values.includes(value)
+      ? { value }
+      : { error: `must be one of ${values.join(', ')}` };
+}
+
+function text(maxLength: number) {
+  return (value: unknown): FieldResult => {
+    if (typeof value !== 'string' || !value.trim()) return { error: 'must be a non-empty string' };
+    if (value.length > maxLength) return { error: `must be at most ${maxLength} characters` };
+    return { value: value.trim() };
+  };
+}
+
+// Not trimmed, so line numbers in the CSS still match the document
+function css(value: unknown): FieldResult {
+  if (typeof value !== 'string') return { error: 'must be a block of CSS (start it with css: | and indent it)' };
+  if (value.length > MAX_CSS_LENGTH) return { error: `must be at most ${MAX_CSS_LENGTH} characters` };
+  return { value };
+}
+
+function absoluteUrl(value: unknown): FieldResult {
+  if (typeof value === 'string' && /^https?:\/\/[^\s]+$/i.test(value)) return { value };
+  return { error: 'must be an absolute http(s) URL' };
+}
+
+function boolean(value: unknown): FieldResult {
+  return typeof value === 'boolean' ? { value } : { error: 'must be true or false' };
+}
+
+export function isValidTag(tag: string): boolean {
+  return TAG_PATTERN.test(tag);
+}
+
+// Tags may be written as a YAML list or a comma-separated string
+function tags(value: unknown): FieldResult {
+  const raw: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [value];
+  const normalized: string[] = [];
+
+  for (const tag of raw) {
+    if (typeof tag !== 'string' && typeof tag !== 'number') {
+      return { error: 'must be a list of tags' };
+    }
+    const name = String(tag).trim().toLowerCase();
+    if (!name) continue;
+    if (!isValidTag(name)) {
+      return { error: `"${name}" is not a valid tag (use letters, numbers, hyphens and underscores)` };
+    }
+    if (!normalized.includes(name)) normalized.push(name);
+  }
+
+  return { value: normalized };
+}
+
+// The schema: how each known field is checked and normalized
+const FIELDS: Record<string, (value: unknown) => FieldResult> = {
+  schema: (value) =>
+    Number.isInteger(value) && (value as number) >= 1
+      ? (value as number) <= FRONTMATTER_SCHEMA_VERSION
+        ? { value }
+        : { error: `version ${value} is not supported (the latest is ${FRONTMATTER_SCHEMA_VERSION})` }
+      : { error: 'must be a positive whole number' },
+  title: text(MAX_TITLE_LENGTH),
+  description: text(MAX_DESCRIPTION_LENGTH),
+  // YAML turns unquoted dates into Date objects; both forms become ISO strings
+  date: (value) => {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? { value: date.toISOString() } : { error: 'must be a date, e.g. 2024-05-01' };
+  },
+  tags,
+  font: oneOf(PAGE_FONTS),
+  background: (value) =>
+    typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+      ? { value }
+      : { error: 'must be a hex color like "#f8f9fa" (quoted, since # starts a YAML comment)' },
+  theme: oneOf(PAGE_THEMES),
+  layout: oneOf(PAGE_LAYOUTS),
+  visibility: (value) =>
+    isPageVisibility(value) ? { value } : { error: 'must be one of public, unlisted, password, private' },
+  canonical: absoluteUrl,
+  image: (value) =>
+    typeof value === 'string' && (value.startsWith('/') || /^https?:\/\//i.test(value))
+      ? { value }
+      : { error: 'must be an absolute URL or a path starting with /' },
+  noindex: boolean,
+  toc: boolean,
+  html: boolean,
+  css
+};
+
+// Line numbers (1-based) of the top-level keys of a document's frontmatter block
+function findFieldLines(markdown: string): Map<string, number> {
+  const lines = markdown.split(/\r?\n/);
+  const fieldLines = new Map<string, number>();
+  if (lines[0]?.trim() !== '---') return fieldLines;
+
+  for (let i = 1; i < lines.length && lines[i].trim() !== '---'; i++) {
+    const match = lines[i].match(/^([A-Za-z0-9_-]+)\s*:/);
+    if (match && !fieldLines.has(match[1])) {
+      fieldLines.set(match[1], i + 1);
+    }
+  }
+
+  return fieldLines;
+}
+
+// Line of the document a frontmatter field is on (1-based), if it is there
+export function getFieldLine(markdown: string, field: string): number | null {
+  return findFieldLines(markdown).get(field) ?? null;
+}
+
+// Check known fields against the schema. Invalid fields are reported and left
+// out of the result, so a page can still be rendered without them
+export function validateFrontmatter(data: Record<string, unknown>, markdown: string = '') {
+  const fieldLines = findFieldLines(markdown);
+  const frontmatter: Frontmatter = {};
+  const errors: FrontmatterFieldError[] = [];
+
+  for (const [field, value] of Object.entries(data)) {
+    const validate = FIELDS[field];
+    if (!validate) {
+      // Not part of the schema: keep it, as JSON would store it
+      frontmatter[field] = JSON.parse(JSON.stringify(value ?? null));
+      continue;
+    }
+
+    if (value === null || value === undefined) continue;
+
+    const result = validate(value);
+    if ('error' in result) {
+      errors.push({ field, message: `${field} ${result.error}`, line: fieldLines.get(field) ?? null });
+    } else {
+      frontmatter[field] = result.value;
+    }
+  }
+
+  return { frontmatter, errors };
+}
+
+// Split a document into its validated frontmatter and its body. Never throws:
+// YAML syntax errors are reported like any other field error
+export function parseFrontmatter(markdown: string): ParsedFrontmatter {
+  let parsed: { data: Record<string, unknown>; content: string };
+  try {
+    parsed = matter(markdown);
+  } catch (error) {
+    const yamlError = error as { reason?: string; message?: string; mark?: { line?: number } };
+    // gray-matter hands the YAML over starting with the newline after the
+    // opening ---, so its 0-based line numbers are off by one from the document's
+    const line = typeof yamlError.mark?.line === 'number' ? yamlError.mark.line + 1 : null;
+    return {
+      frontmatter: {},
+      content: markdown,
+      errors: [{ field: 'frontmatter', message: `Invalid YAML: ${yamlError.reason || yamlError.message || 'could not be parsed'}`, line }]
+    };
+  }
+
+  const { frontmatter, errors } = validateFrontmatter(parsed.data, markdown);
+  return { frontmatter, content: parsed.content, errors };
+}
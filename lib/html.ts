@@ -0,0 +1,252 @@
+import { raw, Options as RawOptions } from 'hast-util-raw';
+import { visit } from 'unist-util-visit';
+import type { Element, ElementContent, Properties, Root, RootContent } from 'hast';
+
+// Protocols allowed in links and media; anything else (javascript:, data:, ...) is dropped
+const SAFE_PROTOCOL = /^(https?|ircs?|mailto|xmpp|tel)$/i;
+
+// Attributes any allowed tag may have, as hast property names
+const GLOBAL_ATTRIBUTES = ['title', 'lang', 'dir'];
+
+// Tags pages with `html: true` may use, with the attributes each may have.
+// No class, style, id or event handlers, and no data-* attributes, which
+// CustomMarkdown reads from compiled markdown
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href'],
+  abbr: [],
+  b: [],
+  bdi: [],
+  bdo: [],
+  blockquote: ['cite'],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  dd: [],
+  del: ['cite', 'dateTime'],
+  details: ['open'],
+  dfn: [],
+  div: [],
+  dl: [],
+  dt: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  iframe: ['src', 'width', 'height', 'allowFullScreen', 'loading'],
+  img: ['src', 'alt', 'width', 'height', 'loading'],
+  ins: ['cite', 'dateTime'],
+  kbd: [],
+  li: ['value'],
+  mark: [],
+  ol: ['start', 'reversed'],
+  p: [],
+  pre: [],
+  q: ['cite'],
+  rp: [],
+  rt: [],
+  ruby: [],
+  s: [],
+  samp: [],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['colSpan', 'rowSpan'],
+  tfoot: [],
+  th: ['colSpan', 'rowSpan', 'scope'],
+  thead: [],
+  time: ['dateTime'],
+  tr: [],
+  u: [],
+  ul: [],
+  var: [],
+  wbr: []
+};
+
+// Tags removed along with everything in them. Other tags that aren't allowed
+// are replaced by their content
+const DROPPED_TAGS = new Set([
+  'applet', 'base', 'canvas', 'embed', 'frame', 'frameset', 'head', 'input', 'link', 'math', 'meta',
+  'noscript', 'object', 'script', 'select', 'style', 'svg', 'template', 'textarea', 'title'
+]);
+
+// Sites whose players pages may embed with <iframe>
+export const IFRAME_ORIGINS = [
+  'https://www.youtube.com',
+  'https://www.youtube-nocookie.com',
+  'https://player.vimeo.com',
+  'https://open.spotify.com',
+  'https://w.soundcloud.com',
+  'https://codepen.io',
+  'https://www.openstreetmap.org'
+];
+
+// Embedded players keep scripts, but can't navigate the page or open forms
+const IFRAME_SANDBOX = ['allow-scripts', 'allow-same-origin', 'allow-popups', 'allow-presentation'];
+
+// Marks the elements compiled from markdown, so only raw HTML is sanitized.
+// Its value indexes their properties, which parsing would otherwise change
+// (e.g. data-mermaid from true to ""). Parsing makes new nodes, so the mark has
+// to be an attribute; a random key per compile keeps raw HTML from faking it
+const COMPILED_MARKER = 'dataCompiledFromMarkdown';
+
+// Something a sanitizer took out, raw HTML here or CSS in lib/customCss.ts
+export interface StrippedContent {
+  // What was taken out, e.g. <script> or onclick on <img>
+  content: string;
+  reason: string;
+  // Line of the document it was on (1-based), when it can be found
+  line: number | null;
+}
+
+// The text of a hast node and everything in it
+export function textOf(node: RootContent | ElementContent): string {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(textOf).join('');
+  return '';
+}
+
+export function safeUrl(url: string): string {
+  const colon = url.indexOf(':');
+  const firstDelimiter = url.search(/[/?#]/);
+
+  // No protocol at all (relative URL, fragment, query), or the colon comes later in the path
+  if (colon === -1 || (firstDelimiter !== -1 && colon > firstDelimiter)) {
+    return url;
+  }
+
+  return SAFE_PROTOCOL.test(url.slice(0, colon)) ? url : '';
+}
+
+function isAllowedIframe(src: unknown): boolean {
+  if (typeof src !== 'string') return false;
+  try {
+    return IFRAME_ORIGINS.includes(new URL(src).origin);
+  } catch {
+    return false;
+  }
+}
+
+// hast names properties in camelCase; this is how they were written
+function attributeName(property: string): string {
+  if (property === 'className') return 'class';
+  if (property === 'htmlFor') return 'for';
+  return /^(data|aria)[A-Z]/.test(property)
+    ? property.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)
+    : property.toLowerCase();
+}
+
+export interface RawHtmlOptions {
+  stripped: StrippedContent[];
+  // Lines before the markdown the tree was compiled from (the frontmatter)
+  lineOffset: number;
+}
+
+interface SanitizeContext extends RawHtmlOptions {
+  compiledProperties: Properties[];
+  compiledKey: string;
+}
+
+function randomKey(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Properties of an element compiled from markdown, or null for raw HTML,
+// including raw HTML that has its own data-compiled-from-markdown
+function compiledProperties(node: Element, context: SanitizeContext): Properties | null {
+  const marker = node.properties[COMPILED_MARKER];
+  if (typeof marker !== 'string') return null;
+
+  const [key, index] = marker.split(':');
+  if (key !== context.compiledKey || !/^\d+$/.test(index)) return null;
+  return context.compiledProperties[Number(index)] ?? null;
+}
+
+function strip(context: SanitizeContext, node: RootContent, content: string, reason: string) {
+  const line = node.position?.start.line;
+  context.stripped.push({ content, reason, line: line ? line + context.lineOffset : null });
+}
+
+function sanitizeAttributes(node: Element, context: SanitizeContext) {
+  const allowed = [...GLOBAL_ATTRIBUTES, ...ALLOWED_TAGS[node.tagName]];
+
+  for (const [name, value] of Object.entries(node.properties)) {
+    if (!allowed.includes(name)) {
+      strip(context, node, `${attributeName(name)} on <${node.tagName}>`, 'This attribute is not allowed');
+      delete node.properties[name];
+    } else if ((name === 'href' || name === 'src' || name === 'cite') && typeof value === 'string' && !safeUrl(value)) {
+      strip(context, node, `${attributeName(name)}="${value}" on <${node.tagName}>`, 'Only http(s), mailto and tel links are allowed');
+      delete node.properties[name];
+    }
+  }
+
+  if (node.tagName === 'iframe') node.properties.sandbox = IFRAME_SANDBOX;
+}
+
+// Sanitize the raw HTML among children, returning what replaces them
+function sanitizeChildren(children: RootContent[], context: SanitizeContext): RootContent[] {
+  return children.flatMap((child): RootContent[] => {
+    if (child.type === 'comment' || child.type === 'doctype') return [];
+    if (child.type !== 'element') return [child];
+
+    const properties = compiledProperties(child, context);
+    if (properties) {
+      child.properties = properties;
+      child.children = sanitizeChildren(child.children, context) as ElementContent[];
+      return [child];
+    }
+
+    if (child.tagName === 'iframe' && !isAllowedIframe(child.properties.src)) {
+      strip(context, child, `<iframe src="${child.properties.src ?? ''}">`, `Only iframes from ${IFRAME_ORIGINS.join(', ')} are allowed`);
+      return [];
+    }
+
+    if (DROPPED_TAGS.has(child.tagName)) {
+      strip(context, child, `<${child.tagName}>`, 'This tag is not allowed, so it was removed with its content');
+      return [];
+    }
+
+    const content = sanitizeChildren(child.children, context);
+    if (!ALLOWED_TAGS[child.tagName]) {
+      strip(context, child, `<${child.tagName}>`, 'This tag is not allowed, so only its content was kept');
+      return content;
+    }
+
+    sanitizeAttributes(child, context);
+    child.children = content as ElementContent[];
+    return [child];
+  });
+}
+
+// Parse the raw HTML of pages with `html: true` into the tree, and keep only
+// the tags and attributes allowed above. Whatever is taken out is added to
+// `stripped`, for the editor to show
+export function rehypeRawHtml(options: RawHtmlOptions) {
+  return (tree: Root, file: RawOptions['file']) => {
+    const compiledKey = randomKey();
+    const compiledProperties: Properties[] = [];
+    visit(tree, 'element', (node: Element) => {
+      compiledProperties.push(node.properties);
+      node.properties = { ...node.properties, [COMPILED_MARKER]: `${compiledKey}:${compiledProperties.length - 1}` };
+    });
+
+    // Given the file, parsing keeps the position of each tag, for the line numbers
+    const parsed = raw(tree, { file }) as Root;
+    const context = { ...options, compiledProperties, compiledKey };
+    tree.children = sanitizeChildren(parsed.children, context) as Root['children'];
+  };
+}
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+// Cache-Control for responses that depend on the visitor's cookies: browsers may
+// keep them but must check back (cheaply, through the ETag) before reusing them
+export const PRIVATE_REVALIDATE = 'private, no-cache';
+
+function etagFor(payload: string): string {
+  return `"${createHash('sha1').update(payload).digest('base64url')}"`;
+}
+
+// Whether an If-None-Match header already names the given ETag
+function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some((candidate) => {
+    const value = candidate.trim().replace(/^W\//, '');
+    return value === '*' || value === etag;
+  });
+}
+
+// Helper function to send a body with Cache-Control and ETag headers,
+// answering 304 Not Modified when the client already has this exact body
+export function sendCacheable(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  payload: string,
+  contentType: string,
+  cacheControl: string
+) {
+  const etag = etagFor(payload);
+
+  res.setHeader('Cache-Control', cacheControl);
+  res.setHeader('ETag', etag);
+
+  if (matchesEtag(req.headers['if-none-match'], etag)) {
+    return res.status(304).end();
+  }
+
+  res.setHeader('Content-Type', contentType);
+  return res.status(200).send(payload);
+}
+
+// Helper function to send a JSON body the same way
+export function sendCacheableJson(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  body: unknown,
+  cacheControl: string
+) {
+  return sendCacheable(req, res, JSON.stringify(body), 'application/json; charset=utf-8', cacheControl);
+}
+
+// Origin the request was made to, for absolute URLs when NEXT_PUBLIC_SITE_URL isn't set
+export function getRequestOrigin(req: NextApiRequest): string {
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const protocol = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0].trim() || 'http';
+  return `${protocol}://${req.headers.host}`;
+}
@@ -0,0 +1,456 @@
+import { unified, PluggableList } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkDirective from 'remark-directive';
+import remarkRehype from 'remark-rehype';
+import rehypeKatex from 'rehype-katex';
+import { toString } from 'mdast-util-to-string';
+import { SKIP, visit } from 'unist-util-visit';
+import GithubSlugger from 'github-slugger';
+import type { Root as MdastRoot, Heading, Paragraph, PhrasingContent, Text } from 'mdast';
+import type { Root as HastRoot, Element, ElementContent } from 'hast';
+import { Frontmatter, FrontmatterFieldError, parseFrontmatter } from './frontmatter';
+import { compileDirective, parseDirective } from './directives';
+import { rehypeCodeBlocks } from './codeBlocks';
+import { remarkBlocks } from './blocks';
+import { RawHtmlOptions, rehypeRawHtml, safeUrl, StrippedContent } from './html';
+
+// Bump whenever the plugins below change what a document renders to. Pages
+// stored with an older version are re-rendered from their markdown
+export const RENDER_VERSION = 14;
+
+const EXCERPT_LENGTH = 200;
+
+// How many heading levels the table of contents goes down
+const TOC_LEVELS = 3;
+
+export interface PageMedia {
+  type: 'image' | 'audio' | 'video';
+  url: string;
+  alt?: string;
+}
+
+export interface PageHeading {
+  depth: number;
+  text: string;
+  // Anchor of the heading, unique within the page
+  id: string;
+}
+
+export interface PageMetadata {
+  title: string | null;
+  description: string | null;
+  tags: string[];
+  wordCount: number;
+  media: PageMedia[];
+  links: string[];
+  // Slugs of the author's pages linked with [[slug]]
+  wikiLinks: string[];
+  // Slugs of the author's pages embedded with ![[slug]]
+  embeds: string[];
+  headings: PageHeading[];
+  excerpt: string | null;
+  // Plain text of the body, one block per paragraph, for full-text search
+  bodyText: string;
+}
+
+export interface CompiledPage {
+  frontmatter: Frontmatter;
+  // Fields that failed validation; they are left out of frontmatter
+  frontmatterErrors: FrontmatterFieldError[];
+  // Raw HTML the sanitizer took out, on pages with `html: true`
+  strippedHtml: StrippedContent[];
+  content: string;
+  metadata: PageMetadata;
+  ast: HastRoot;
+}
+
+// [[slug]] or [[slug|label]], where slug follows the same rules as page slugs.
+// A leading ! makes it an embed, which only counts as a paragraph of its own
+const WIKI_LINK_PATTERN = /(!?)\[\[\s*([a-zA-Z0-9_-]+)\s*(?:\|([^[\]|]+))?\]\]/g;
+
+// A paragraph consisting only of ![[slug]] or ![[slug#heading]]
+const EMBED_PATTERN = /^!\[\[\s*([a-zA-Z0-9_-]+)\s*(?:#([^[\]|#]+))?\]\]$/;
+
+// Turn !name(...) paragraphs into the elements their directive compiles to
+// (see lib/directives). Unknown or misused directives keep their text, with the
+// problem attached for the editor preview to show
+function remarkDirectives() {
+  return (tree: MdastRoot) => {
+    visit(tree, 'paragraph', (node: Paragraph) => {
+      const call = parseDirective(toString(node));
+      if (!call) return;
+
+      const result = compileDirective(call);
+      if ('error' in result) {
+        node.data = { hProperties: { dataDirectiveError: result.error } };
+        return;
+      }
+
+      const { tagName, properties, children = [] } = result.element;
+      node.data = {
+        hName: tagName,
+        hProperties: { ...properties, dataDirective: call.name },
+        hChildren: children
+      };
+      node.children = [];
+    });
+  };
+}
+
+// Audio, video and images a compiled directive shows, for the page metadata
+function directiveMedia(node: ElementContent, media: PageMedia[]) {
+  if (node.type !== 'element') return;
+
+  const { src } = node.properties;
+  if (typeof src === 'string') {
+    if (node.tagName === 'audio' || node.tagName === 'video') media.push({ type: node.tagName, url: src });
+    if (node.tagName === 'img') media.push({ type: 'image', url: src });
+  }
+
+  node.children.forEach((child) => directiveMedia(child, media));
+}
+
+// Turn [[slug]] and [[slug|label]] into links to the author's own pages. The
+// links are relative, so they stay within the namespace the page is served
+// from; CustomMarkdown points them elsewhere when told which pages exist
+function remarkWikiLinks() {
+  return (tree: MdastRoot) => {
+    visit(tree, 'text', (node: Text, index, parent) => {
+      if (!parent || index === undefined || parent.type === 'link' || parent.type === 'linkReference') return;
+
+      const pieces: PhrasingContent[] = [];
+      let offset = 0;
+      let match: RegExpExecArray | null;
+      WIKI_LINK_PATTERN.lastIndex = 0;
+
+      while ((match = WIKI_LINK_PATTERN.exec(node.value)) !== null) {
+        const [source, embed, slug, label] = match;
+        if (embed) continue;
+
+        if (match.index > offset) {
+          pieces.push({ type: 'text', value: node.value.slice(offset, match.index) });
+        }
+
+        pieces.push({
+          type: 'link',
+          url: slug,
+          children: [{ type: 'text', value: label?.trim() || slug }],
+          data: { hProperties: { dataWikiLink: slug } }
+        });
+        offset = match.index + source.length;
+      }
+
+      if (pieces.length === 0) return;
+
+      if (offset < node.value.length) {
+        pieces.push({ type: 'text', value: node.value.slice(offset) });
+      }
+
+      parent.children.splice(index, 1, ...pieces);
+      return index + pieces.length;
+    });
+  };
+}
+
+// Turn ![[slug]] and ![[slug#heading]] paragraphs into placeholders for the
+// embedded page (or one section of it), which lib/embeds.ts fills in when the
+// page is served
+function remarkEmbeds() {
+  return (tree: MdastRoot) => {
+    visit(tree, 'paragraph', (node: Paragraph) => {
+      const match = toString(node).trim().match(EMBED_PATTERN);
+      if (!match) return;
+
+      const heading = match[2]?.trim();
+      node.data = {
+        hName: 'div',
+        hProperties: heading ? { dataEmbed: match[1], dataEmbedHeading: heading } : { dataEmbed: match[1] }
+      };
+      node.children = [];
+    });
+  };
+}
+
+// Give every heading a GitHub-style id, so #anchors stay the same as long as
+// the heading text does (repeated headings get -1, -2, ...)
+function remarkHeadingIds() {
+  return (tree: MdastRoot) => {
+    const slugger = new GithubSlugger();
+    visit(tree, 'heading', (node: Heading) => {
+      const id = slugger.slug(normalizeText(toString(node))) || 'section';
+      node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id } };
+    });
+  };
+}
+
+// Drop unsafe URLs and source positions, so the stored tree can be rendered as is
+function rehypeCleanup() {
+  return (tree: HastRoot) => {
+    visit(tree, (node) => {
+      delete node.position;
+
+      if (node.type === 'element') {
+        const { properties } = node as Element;
+        for (const name of ['href', 'src']) {
+          if (typeof properties[name] === 'string') {
+            properties[name] = safeUrl(properties[name] as string);
+          }
+        }
+      }
+    });
+  };
+}
+
+// ```mermaid fences are drawn in the browser by CustomMarkdown, from
+// <pre data-mermaid>. Until then, and wherever scripts don't run (e.g. feeds),
+// they show their source
+function rehypeMermaid() {
+  return (tree: HastRoot) => {
+    visit(tree, 'element', (node: Element) => {
+      const code = node.tagName === 'pre' ? node.children[0] : null;
+      if (code?.type !== 'element' || code.tagName !== 'code') return;
+
+      const { className } = code.properties;
+      if (!Array.isArray(className) || !className.includes('language-mermaid')) return;
+
+      node.properties = { dataMermaid: true };
+      node.children = code.children;
+      return SKIP;
+    });
+  };
+}
+
+// Link each heading to itself, with a # shown on hover. The footnotes section
+// has a heading of its own, only there for screen readers
+function rehypeHeadingAnchors() {
+  return (tree: HastRoot) => {
+    visit(tree, 'element', (node: Element) => {
+      if (node.tagName === 'section' && node.properties.dataFootnotes) return SKIP;
+      if (!/^h[1-6]$/.test(node.tagName) || typeof node.properties.id !== 'string') return;
+
+      const { className } = node.properties;
+      node.properties.className = [...(Array.isArray(className) ? className : []), 'group'];
+      node.children.push({
+        type: 'element',
+        tagName: 'a',
+        properties: {
+          href: `#${node.properties.id}`,
+          ariaHidden: 'true',
+          tabIndex: -1,
+          dataHeadingAnchor: true,
+          className: ['ml-2', 'no-underline', 'text-gray-400', 'opacity-0', 'group-hover:opacity-100']
+        },
+        children: [{ type: 'text', value: '#' }]
+      });
+    });
+  };
+}
+
+// Every plugin that affects rendering goes here, so published pages and the
+// editor preview always render the same way
+// remark-directive parses :::name containers for remarkBlocks, which has to
+// run before the plugins that read text
+const remarkPlugins: PluggableList = [
+  remarkGfm, remarkMath, remarkDirective, remarkBlocks, remarkDirectives, remarkEmbeds, remarkWikiLinks, remarkHeadingIds
+];
+
+// KaTeX renders $inline$ and $$block$$ math, and mermaid fences are set aside
+// before code blocks are highlighted, since both reach rehype as code. Formulas KaTeX can't parse are
+// shown in red, with the error as their title
+const rehypePlugins: PluggableList = [
+  rehypeKatex, rehypeMermaid, rehypeHeadingAnchors, rehypeCodeBlocks
+];
+
+function parseMarkdown(content: string): MdastRoot {
+  const processor = unified().use(remarkParse).use(remarkPlugins);
+  return processor.runSync(processor.parse(content)) as MdastRoot;
+}
+
+// Raw HTML is only parsed on pages with `html: true`. It goes in after the
+// plugins above, so they only ever see compiled markdown
+function toHast(tree: MdastRoot, rawHtml: RawHtmlOptions | null): HastRoot {
+  return unified()
+    .use(remarkRehype, { allowDangerousHtml: rawHtml !== null })
+    .use(rehypePlugins)
+    .use(rawHtml ? [[rehypeRawHtml, rawHtml]] : [])
+    .use(rehypeCleanup)
+    .runSync(tree) as HastRoot;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function extractMetadata(frontmatter: Frontmatter, tree: MdastRoot): PageMetadata {
+  const headings: PageHeading[] = [];
+  const media: PageMedia[] = [];
+  const links = new Set<string>();
+  const wikiLinks = new Set<string>();
+  const embeds = new Set<string>();
+  let wordCount = 0;
+  let excerpt: string | null = null;
+
+  visit(tree, (node) => {
+    switch (node.type) {
+      case 'heading':
+        headings.push({
+          depth: node.depth,
+          text: normalizeText(toString(node)),
+          id: node.data?.hProperties?.id as string
+        });
+        break;
+      case 'paragraph': {
+        const { hName, hProperties = {}, hChildren = [] } = node.data || {};
+        if (hName && typeof hProperties.dataDirective === 'string') {
+          directiveMedia({ type: 'element', tagName: hName, properties: hProperties, children: hChildren }, media);
+        } else if (typeof hProperties.dataEmbed === 'string') {
+          embeds.add(hProperties.dataEmbed);
+        } else if (excerpt === null && hProperties.dataDirectiveError === undefined) {
+          excerpt = normalizeText(toString(node)) || null;
+        }
+        break;
+      }
+      case 'image':
+        media.push({ type: 'image', url: node.url, ...(node.alt ? { alt: node.alt } : {}) });
+        break;
+      case 'link':
+      case 'definition': {
+        const wikiLink = node.data?.hProperties?.dataWikiLink;
+        if (typeof wikiLink === 'string') {
+          wikiLinks.add(wikiLink);
+        } else if (safeUrl(node.url)) {
+          links.add(node.url);
+        }
+        break;
+      }
+      case 'text':
+        wordCount += node.value.split(/\s+/).filter(Boolean).length;
+        break;
+    }
+  });
+
+  const bodyText = tree.children
+    .map((child) => normalizeText(toString(child)))
+    .filter(Boolean)
+    .join('\n\n');
+
+  const firstTitle = headings.find((heading) => heading.depth === 1)?.text || null;
+  const pageExcerpt = excerpt ? truncate(excerpt, EXCERPT_LENGTH) : null;
+
+  return {
+    title: frontmatter.title || firstTitle,
+    description: frontmatter.description || pageExcerpt,
+    tags: frontmatter.tags || [],
+    wordCount,
+    media,
+    links: Array.from(links),
+    wikiLinks: Array.from(wikiLinks),
+    embeds: Array.from(embeds),
+    headings,
+    excerpt: pageExcerpt,
+    bodyText
+  };
+}
+
+function element(tagName: string, properties: Element['properties'], children: ElementContent[]): Element {
+  return { type: 'element', tagName, properties, children };
+}
+
+// A nested list of links to the headings of a page, for `toc: true`. A leading
+// h1 is the page title, so it is left out
+function buildTableOfContents(headings: PageHeading[]): Element | null {
+  const entries = headings[0]?.depth === 1 ? headings.slice(1) : headings;
+  if (entries.length === 0) return null;
+
+  const top = Math.min(...entries.map((heading) => heading.depth));
+  const root = element('ul', {}, []);
+  const lists = [root];
+
+  for (const heading of entries) {
+    const level = heading.depth - top;
+    if (level >= TOC_LEVELS) continue;
+
+    lists.length = Math.min(lists.length, level + 1);
+    while (lists.length <= level) {
+      // A heading that skips a level gets an empty item to hang from
+      const parent = lists[lists.length - 1];
+      let item = parent.children[parent.children.length - 1] as Element | undefined;
+      if (!item) {
+        item = element('li', {}, []);
+        parent.children.push(item);
+      }
+      const list = element('ul', {}, []);
+      item.children.push(list);
+      lists.push(list);
+    }
+
+    lists[level].children.push(
+      element('li', {}, [element('a', { href: `#${heading.id}` }, [{ type: 'text', value: heading.text }])])
+    );
+  }
+
+  return element('nav', { ariaLabel: 'Table of contents', className: ['toc'] }, [
+    element('p', {}, [element('strong', {}, [{ type: 'text', value: 'Contents' }])]),
+    root
+  ]);
+}
+
+// Put the table of contents after the title, or first when there is none
+function insertTableOfContents(tree: HastRoot, toc: Element) {
+  const first = tree.children.findIndex((node) => node.type === 'element');
+  const afterTitle = first !== -1 && (tree.children[first] as Element).tagName === 'h1';
+  tree.children.splice(afterTitle ? first + 1 : 0, 0, toc);
+}
+
+// Parse a whole document once: frontmatter, metadata and the rendered tree.
+// Invalid frontmatter is reported in frontmatterErrors rather than thrown
+export function compilePage(markdown: string): CompiledPage {
+  const { frontmatter, content, errors } = parseFrontmatter(markdown);
+  const tree = parseMarkdown(content);
+  const metadata = extractMetadata(frontmatter, tree);
+
+  const strippedHtml: StrippedContent[] = [];
+  const lineOffset = markdown.endsWith(content) ? markdown.slice(0, markdown.length - content.length).split('\n').length - 1 : 0;
+  const ast = toHast(tree, frontmatter.html ? { stripped: strippedHtml, lineOffset } : null);
+
+  const toc = frontmatter.toc ? buildTableOfContents(metadata.headings) : null;
+  if (toc) insertTableOfContents(ast, toc);
+
+  return {
+    frontmatter,
+    frontmatterErrors: errors,
+    strippedHtml,
+    content,
+    metadata,
+    ast
+  };
+}
+
+// Columns of the pages table that hold the compiled form of a document
+export function toRenderedColumns({ frontmatter, metadata, ast }: CompiledPage) {
+  return {
+    title: metadata.title,
+    description: metadata.description,
+    tags: metadata.tags,
+    word_count: metadata.wordCount,
+    media: metadata.media,
+    links: metadata.links,
+    wiki_links: metadata.wikiLinks,
+    embeds: metadata.embeds,
+    headings: metadata.headings,
+    excerpt: metadata.excerpt,
+    body_text: metadata.bodyText,
+    frontmatter,
+    rendered_ast: ast,
+    render_version: RENDER_VERSION
+  };
+}
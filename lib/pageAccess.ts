@@ -0,0 +1,121 @@
+import { getUserFromSession, supabase } from './auth';
+import { SESSION_COOKIE, unlockCookieName } from './cookies';
+import { hashPassword, passwordFingerprint, signValue, verifySignedValue } from './signing';
+import { PageVisibility } from './visibility';
+
+// granted: render the page; password: show the unlock form; denied: respond as if it doesn't exist
+export type PageAccess = 'granted' | 'password' | 'denied';
+
+export const UNLOCK_COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days, in seconds
+
+interface ProtectedPage {
+  id: number;
+  user_id: string | null;
+  visibility?: PageVisibility | null;
+}
+
+type Cookies = Partial<Record<string, string>>;
+
+// Helper function to get the password hash of a page. Hashes are kept in
+// page_passwords, which only the service role can read
+export async function getPagePasswordHash(pageId: number): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('page_passwords')
+    .select('password_hash')
+    .eq('page_id', pageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching page password:', error);
+    return null;
+  }
+
+  return data?.password_hash ?? null;
+}
+
+// Helper function to save the password hash of a page, or remove it from pages that no longer have one
+export async function savePagePasswordHash(pageId: number, passwordHash: string | null) {
+  const { error } = passwordHash
+    ? await supabase.from('page_passwords').upsert({ page_id: pageId, password_hash: passwordHash })
+    : await supabase.from('page_passwords').delete().eq('page_id', pageId);
+
+  return { error };
+}
+
+interface VisibilityChoice {
+  // From the page's frontmatter, which wins over everything else
+  frontmatter?: PageVisibility;
+  // Chosen in the editor
+  requested?: PageVisibility;
+  // A new password, for password-protected pages
+  password?: string;
+  existingPage?: { id: number; visibility?: PageVisibility | null } | null;
+}
+
+// Helper function to work out the visibility a page is saved with: the
+// frontmatter's, else the one chosen in the editor, else the page's current one.
+// A password page keeps its existing password when no new one is given
+export async function resolvePageVisibility({ frontmatter, requested, password, existingPage }: VisibilityChoice) {
+  const visibility: PageVisibility = frontmatter ?? requested ?? existingPage?.visibility ?? 'public';
+  if (visibility !== 'password') {
+    return { visibility, passwordHash: null, error: null };
+  }
+
+  const passwordHash = password
+    ? hashPassword(password)
+    : existingPage ? await getPagePasswordHash(existingPage.id) : null;
+  if (!passwordHash) {
+    return { visibility, passwordHash: null, error: 'password is required for password-protected pages' };
+  }
+
+  return { visibility, passwordHash, error: null };
+}
+
+// Signed cookie value proving the password of a page was entered
+export function createUnlockCookieValue(pageId: number, passwordHash: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + UNLOCK_COOKIE_MAX_AGE;
+  return signValue(`${pageId}.${passwordFingerprint(passwordHash)}.${expiresAt}`);
+}
+
+async function hasValidUnlockCookie(page: ProtectedPage, cookies: Cookies): Promise<boolean> {
+  const value = verifySignedValue(cookies[unlockCookieName(page.id)]);
+  if (!value) return false;
+
+  const passwordHash = await getPagePasswordHash(page.id);
+  if (!passwordHash) return false;
+
+  const [pageId, fingerprint, expiresAt] = value.split('.');
+  return (
+    pageId === String(page.id) &&
+    fingerprint === passwordFingerprint(passwordHash) &&
+    Number(expiresAt) > Date.now() / 1000
+  );
+}
+
+// Helper function to check whether the owner of a page is the one viewing it
+export async function isPageOwner(page: ProtectedPage, cookies: Cookies): Promise<boolean> {
+  const sessionToken = cookies[SESSION_COOKIE];
+  if (!sessionToken || !page.user_id) return false;
+
+  const user = await getUserFromSession(sessionToken);
+  return user?.id === page.user_id;
+}
+
+// Decide what a visitor gets to see of a page, based on its visibility and their cookies
+export async function getPageAccess(page: ProtectedPage, cookies: Cookies): Promise<PageAccess> {
+  const visibility = page.visibility || 'public';
+
+  if (visibility === 'public' || visibility === 'unlisted') {
+    return 'granted';
+  }
+
+  if (await isPageOwner(page, cookies)) {
+    return 'granted';
+  }
+
+  if (visibility === 'password') {
+    return (await hasValidUnlockCookie(page, cookies)) ? 'granted' : 'password';
+  }
+
+  return 'denied';
+}
@@ -0,0 +1,221 @@
+import { supabase } from './auth';
+import { isPageLive, PageSchedule } from './pageStatus';
+import { pagePath } from './urls';
+import { isPageListed } from './visibility';
+
+export interface Backlink {
+  path: string;
+  title: string;
+}
+
+// How a page is connected to the author's other pages through [[slug]] links
+export interface PageLinks {
+  // Paths of the linked pages visitors can open, by slug; links to any other
+  // slug are shown as missing
+  targets: Record<string, string>;
+  // Listed pages that link to this one
+  backlinks: Backlink[];
+}
+
+export const NO_PAGE_LINKS: PageLinks = { targets: {}, backlinks: [] };
+
+// How deep embedded pages may embed other pages in turn
+export const MAX_EMBED_DEPTH = 3;
+
+type LinkKind = 'link' | 'embed';
+
+// Helper function to make a page's rows in page_links match the [[slug]] links
+// and ![[slug]] embeds in its current content. Returns the slugs it linked to
+// before, whose backlinks may have lost it
+export async function syncPageLinks(pageId: number, userId: string, slugs: string[], embeds: string[] = []) {
+  const { data: existing, error: existingError } = await supabase
+    .from('page_links')
+    .select('target_slug, kind')
+    .eq('source_page_id', pageId);
+
+  if (existingError) {
+    return { previousTargets: [] as string[], error: existingError };
+  }
+
+  const rows: { target_slug: string; kind: LinkKind }[] = existing || [];
+  const previousTargets = rows.filter((row) => row.kind === 'link').map((row) => row.target_slug);
+  const current: Record<LinkKind, string[]> = { link: slugs, embed: embeds };
+
+  for (const kind of ['link', 'embed'] as LinkKind[]) {
+    const previous = rows.filter((row) => row.kind === kind).map((row) => row.target_slug);
+
+    const removed = previous.filter((slug) => !current[kind].includes(slug));
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('page_links')
+        .delete()
+        .eq('source_page_id', pageId)
+        .eq('kind', kind)
+        .in('target_slug', removed);
+
+      if (error) return { previousTargets, error };
+    }
+
+    const added = current[kind].filter((slug) => !previous.includes(slug));
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from('page_links')
+        .upsert(
+          added.map((slug) => ({ source_page_id: pageId, user_id: userId, target_slug: slug, kind })),
+          { ignoreDuplicates: true }
+        );
+
+      if (error) return { previousTargets, error };
+    }
+  }
+
+  return { previousTargets, error: null };
+}
+
+// Helper function to read the slug of the page a link was joined to. Without
+// generated types, supabase-js can't tell pages!inner(slug) is one row, not a list
+function joinedSlug(row: { pages: unknown }): string | null {
+  const page: unknown = Array.isArray(row.pages) ? row.pages[0] : row.pages;
+  return typeof page === 'object' && page !== null && 'slug' in page && typeof page.slug === 'string'
+    ? page.slug
+    : null;
+}
+
+// Helper function to find the slugs of the pages that link to, or are linked
+// from, any of the given pages of a user, and of the pages embedding them
+// (directly or through other embedded pages)
+export async function getConnectedSlugs(userId: string, slugs: string[]): Promise<string[]> {
+  if (slugs.length === 0) return [];
+
+  const [incoming, outgoing] = await Promise.all([
+    supabase
+      .from('page_links')
+      .select('pages!inner(slug)')
+      .eq('user_id', userId)
+      .eq('kind', 'link')
+      .in('target_slug', slugs),
+    supabase
+      .from('page_links')
+      .select('target_slug, pages!inner(slug)')
+      .eq('user_id', userId)
+      .eq('kind', 'link')
+      .in('pages.slug', slugs)
+  ]);
+
+  if (incoming.error || outgoing.error) {
+    console.error('Error fetching linked pages:', incoming.error || outgoing.error);
+    return [];
+  }
+
+  const connected = new Set<string>();
+  for (const row of incoming.data || []) {
+    const source = joinedSlug(row);
+    if (source) connected.add(source);
+  }
+  for (const row of outgoing.data || []) {
+    connected.add(row.target_slug);
+  }
+
+  // Embedded pages render inside the pages embedding them, which may be
+  // embedded themselves
+  const embedding = new Set<string>(slugs);
+  let embedded = slugs;
+  for (let depth = 0; depth < MAX_EMBED_DEPTH && embedded.length > 0; depth++) {
+    const { data: embedders, error } = await supabase
+      .from('page_links')
+      .select('pages!inner(slug)')
+      .eq('user_id', userId)
+      .eq('kind', 'embed')
+      .in('target_slug', embedded);
+
+    if (error) {
+      console.error('Error fetching embedding pages:', error);
+      break;
+    }
+
+    embedded = [];
+    for (const row of embedders || []) {
+      const source = joinedSlug(row);
+      if (!source || embedding.has(source)) continue;
+      embedding.add(source);
+      connected.add(source);
+      embedded.push(source);
+    }
+  }
+
+  return Array.from(connected).filter((slug) => !slugs.includes(slug));
+}
+
+// Helper function to load the links of a page: which of its [[slug]] links
+// (and those of the pages embedded in it) lead somewhere, and which listed
+// pages link to it. Also returns the pages involved, live or not, whose
+// schedules decide when this has to be loaded again
+export async function loadPageLinks(
+  page: { id: number; slug: string; user_id: string | null },
+  username: string | null,
+  embeddedPageIds: number[] = []
+): Promise<{ links: PageLinks; connectedPages: PageSchedule[] }> {
+  if (!page.user_id) return { links: NO_PAGE_LINKS, connectedPages: [] };
+
+  const [outgoing, incoming] = await Promise.all([
+    supabase
+      .from('page_links')
+      .select('target_slug')
+      .eq('kind', 'link')
+      .in('source_page_id', [page.id, ...embeddedPageIds]),
+    supabase
+      .from('page_links')
+      .select('source_page_id')
+      .eq('user_id', page.user_id)
+      .eq('kind', 'link')
+      .eq('target_slug', page.slug)
+      .neq('source_page_id', page.id)
+  ]);
+
+  if (outgoing.error || incoming.error) {
+    console.error('Error fetching page links:', outgoing.error || incoming.error);
+    throw outgoing.error || incoming.error;
+  }
+
+  const targetSlugs = Array.from(new Set<string>((outgoing.data || []).map((row) => row.target_slug)));
+  const sourceIds = (incoming.data || []).map((row) => row.source_page_id);
+  if (targetSlugs.length === 0 && sourceIds.length === 0) {
+    return { links: NO_PAGE_LINKS, connectedPages: [] };
+  }
+
+  // Slugs are limited to letters, numbers, hyphens and underscores, so they
+  // need no quoting in the filter
+  const filters: string[] = [];
+  if (targetSlugs.length > 0) filters.push(`slug.in.(${targetSlugs.join(',')})`);
+  if (sourceIds.length > 0) filters.push(`id.in.(${sourceIds.join(',')})`);
+
+  const { data: pages, error } = await supabase
+    .from('pages')
+    .select('id, slug, title, status, publish_at, unpublish_at, visibility')
+    .eq('user_id', page.user_id)
+    .or(filters.join(','))
+    .is('deleted_at', null);
+
+  if (error) {
+    console.error('Error fetching linked pages:', error);
+    throw error;
+  }
+
+  const targets: Record<string, string> = {};
+  const backlinks: Backlink[] = [];
+
+  for (const linked of pages || []) {
+    // Private pages would only show visitors a 404
+    if (targetSlugs.includes(linked.slug) && isPageLive(linked) && linked.visibility !== 'private') {
+      targets[linked.slug] = pagePath(linked.slug, username);
+    }
+
+    if (sourceIds.includes(linked.id) && isPageListed(linked)) {
+      backlinks.push({ path: pagePath(linked.slug, username), title: linked.title || linked.slug });
+    }
+  }
+
+  backlinks.sort((a, b) => a.title.localeCompare(b.title));
+
+  return { links: { targets, backlinks }, connectedPages: pages || [] };
+}
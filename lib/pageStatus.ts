@@ -0,0 +1,39 @@
+export type PageStatus = 'draft' | 'published' | 'scheduled' | 'unpublished';
+
+export const PAGE_STATUSES: PageStatus[] = ['draft', 'published', 'scheduled', 'unpublished'];
+
+export interface PageSchedule {
+  status?: PageStatus | null;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}
+
+// Work out what state a page is in right now, taking its schedule into account
+// (a scheduled page whose publish time has passed is published, and a published
+// page whose unpublish time has passed is unpublished)
+export function getEffectiveStatus(page: PageSchedule, now: Date = new Date()): PageStatus {
+  const status = page.status || 'published';
+
+  if (status === 'draft' || status === 'unpublished') {
+    return status;
+  }
+
+  if (page.publish_at && new Date(page.publish_at) > now) {
+    return 'scheduled';
+  }
+
+  if (page.unpublish_at && new Date(page.unpublish_at) <= now) {
+    return 'unpublished';
+  }
+
+  return 'published';
+}
+
+// Whether a page should be served at its public URL
+export function isPageLive(page: PageSchedule, now: Date = new Date()): boolean {
+  return getEffectiveStatus(page, now) === 'published';
+}
+
+export function isPageStatus(value: unknown): value is PageStatus {
+  return typeof value === 'string' && PAGE_STATUSES.includes(value as PageStatus);
+}
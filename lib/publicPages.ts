@@ -0,0 +1,332 @@
+import type { Root } from 'hast';
+import { supabase } from './auth';
+import { isPageLive, PageStatus } from './pageStatus';
+import { Frontmatter, isPageTheme, PageTheme } from './frontmatter';
+import { compilePage, RENDER_VERSION } from './markdown';
+import { PageGate, PageVisibility } from './visibility';
+import { buildHiddenPageSeo, buildPageSeo, PageSeo } from './seo';
+import { NO_PAGE_LINKS, PageLinks } from './pageLinks';
+import type { PageMedia } from './markdown';
+import { pagePath } from './urls';
+import { sanitizeCss } from './customCss';
+
+// How flat /[slug] URLs from before usernames existed are handled:
+// - serve: render the page at the flat URL (default)
+// - redirect: permanently redirect to /u/[username]/[slug] when the owner has a username
+// - off: flat URLs are not served at all
+export type LegacySlugFallback = 'serve' | 'redirect' | 'off';
+
+export interface PublicPageRecord {
+  id: number;
+  slug: string;
+  markdown: string;
+  user_id: string | null;
+  status: PageStatus | null;
+  publish_at: string | null;
+  unpublish_at: string | null;
+  visibility: PageVisibility | null;
+  frontmatter: Frontmatter | null;
+  title: string | null;
+  description: string | null;
+  tags: string[] | null;
+  media: PageMedia[] | null;
+  rendered_ast: Root | null;
+  render_version: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PublicPageProps {
+  ast: Root | null;
+  frontmatter: Frontmatter;
+  slug: string;
+  pageId: number;
+  // Set for password-protected and private pages, whose content is fetched by
+  // the browser from /api/page-content instead of being part of the page
+  gate: PageGate;
+  seo: PageSeo;
+  // Username of the page's owner, if they have one, for the search box over
+  // their other pages
+  author: string | null;
+  // [[slug]] links from and to the page; left out of gated pages along with their content
+  links: PageLinks;
+  // Theme the owner picked for pages that don't set one in their frontmatter
+  defaultTheme: PageTheme | null;
+  // The owner's stylesheet and the page's `css`, sanitized and scoped to the
+  // page (see lib/customCss.ts). Gated pages get theirs with their content
+  authorCss: string;
+  pageCss: string;
+}
+
+// How a page owner styles all their pages
+export interface AuthorStyle {
+  defaultTheme: PageTheme | null;
+  // Sanitized stylesheet
+  css: string;
+}
+
+export const NO_AUTHOR_STYLE: AuthorStyle = { defaultTheme: null, css: '' };
+
+export function getLegacySlugFallback(): LegacySlugFallback {
+  const value = process.env.LEGACY_SLUG_FALLBACK;
+  return value === 'redirect' || value === 'off' ? value : 'serve';
+}
+
+// Helper function to look up an author by username
+export async function getProfileByUsername(username: string) {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('user_id, username, default_theme, custom_css')
+    .eq('username', username.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching profile:', error);
+    return null;
+  }
+
+  return profile;
+}
+
+// Helper function to get the username of a page owner, if they have picked one
+export async function getUsernameForUser(userId: string | null): Promise<string | null> {
+  if (!userId) return null;
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('username')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching profile:', error);
+    return null;
+  }
+
+  return profile?.username ?? null;
+}
+
+// Helper function to get the style of a page owner out of their profile
+export function toAuthorStyle(profile: { default_theme: string | null; custom_css: string | null } | null): AuthorStyle {
+  if (!profile) return NO_AUTHOR_STYLE;
+
+  return {
+    defaultTheme: isPageTheme(profile.default_theme) ? profile.default_theme : null,
+    css: sanitizeCss(profile.custom_css).css
+  };
+}
+
+// Helper function to get the default theme and stylesheet of a page owner
+export async function getAuthorStyle(userId: string | null): Promise<AuthorStyle> {
+  if (!userId) return NO_AUTHOR_STYLE;
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('default_theme, custom_css')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching profile:', error);
+    return NO_AUTHOR_STYLE;
+  }
+
+  return toAuthorStyle(profile);
+}
+
+// Helper function to get the usernames of several page owners at once
+export async function getUsernamesForUsers(userIds: string[]): Promise<Map<string, string>> {
+  const usernames = new Map<string, string>();
+  if (userIds.length === 0) return usernames;
+
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('user_id, username')
+    .in('user_id', Array.from(new Set(userIds)));
+
+  if (error) {
+    console.error('Error fetching profiles:', error);
+    return usernames;
+  }
+
+  for (const profile of profiles || []) {
+    if (profile.username) usernames.set(profile.user_id, profile.username);
+  }
+
+  return usernames;
+}
+
+// Helper function to load a page from an author's namespace, live or not
+export async function loadPage(userId: string, slug: string): Promise<PublicPageRecord | null> {
+  const { data: page, error } = await supabase
+    .from('pages')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('slug', slug)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching page:', error);
+    return null;
+  }
+
+  return page;
+}
+
+// Load every page a flat /[slug] URL could refer to, oldest first. Several users
+// can own the same slug, so LEGACY_SLUG_OWNER can pin flat URLs to one username
+export async function loadLegacyCandidates(slug: string): Promise<PublicPageRecord[]> {
+  let query = supabase
+    .from('pages')
+    .select('*')
+    .eq('slug', slug)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  const legacyOwner = process.env.LEGACY_SLUG_OWNER;
+  if (legacyOwner) {
+    const profile = await getProfileByUsername(legacyOwner);
+    if (!profile) return [];
+    query = query.eq('user_id', profile.user_id);
+  }
+
+  const { data: pages, error } = await query;
+
+  if (error) {
+    console.error('Error fetching page:', error);
+    return [];
+  }
+
+  return pages || [];
+}
+
+// Find the page a flat /[slug] URL refers to: the oldest live candidate, since
+// it is the one the URL pointed to originally
+export function pickLegacyPage(candidates: PublicPageRecord[]): PublicPageRecord | null {
+  return candidates.find(page => isPageLive(page)) || null;
+}
+
+// Find where an old slug of a renamed page points to now. Pass the owner for
+// namespaced URLs, or null for flat legacy URLs
+export async function resolveSlugRedirect(userId: string | null, oldSlug: string): Promise<PublicPageRecord | null> {
+  let query = supabase
+    .from('slug_redirects')
+    .select('page_id, user_id')
+    .eq('old_slug', oldSlug)
+    .order('created_at', { ascending: true });
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  } else if (process.env.LEGACY_SLUG_OWNER) {
+    const profile = await getProfileByUsername(process.env.LEGACY_SLUG_OWNER);
+    if (!profile) return null;
+    query = query.eq('user_id', profile.user_id);
+  }
+
+  const { data: redirects, error } = await query;
+
+  if (error) {
+    console.error('Error fetching slug redirect:', error);
+    return null;
+  }
+
+  for (const redirect of redirects || []) {
+    const { data: page, error: pageError } = await supabase
+      .from('pages')
+      .select('*')
+      .eq('id', redirect.page_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (pageError) {
+      console.error('Error fetching redirected page:', pageError);
+      continue;
+    }
+
+    if (page && isPageLive(page)) {
+      return page;
+    }
+  }
+
+  return null;
+}
+
+// Date a page was published: its frontmatter date, its scheduled publish time,
+// or when it was created
+export function getPublishedDate(page: PublicPageRecord): string {
+  const date = page.frontmatter?.date;
+  return typeof date === 'string' ? date : page.publish_at || page.created_at;
+}
+
+// The compiled form of a stored page: the one saved when it was published, or
+// for pages saved before the current renderer, compiled here instead
+export function getRenderedPage(page: PublicPageRecord) {
+  if (page.render_version === RENDER_VERSION && page.rendered_ast) {
+    return {
+      ast: page.rendered_ast,
+      frontmatter: page.frontmatter || {},
+      title: page.title,
+      description: page.description,
+      tags: page.tags || [],
+      media: page.media || []
+    };
+  }
+
+  const { ast, frontmatter, metadata } = compilePage(page.markdown);
+  return { ast, frontmatter, ...metadata };
+}
+
+// Props used to render a stored page. Pass the public path it is served at, or
+// null when it isn't served at one (e.g. share links), which keeps it out of
+// search engines
+export function toPublicPageProps(
+  page: PublicPageRecord,
+  path: string | null,
+  authorStyle: AuthorStyle = NO_AUTHOR_STYLE
+): PublicPageProps {
+  const rendered = getRenderedPage(page);
+  const noindex = !path || page.visibility === 'unlisted' || rendered.frontmatter.noindex === true;
+
+  return {
+    ast: rendered.ast,
+    frontmatter: rendered.frontmatter,
+    slug: page.slug,
+    pageId: page.id,
+    gate: 'none',
+    seo: buildPageSeo({ ...page, ...rendered }, path, noindex),
+    author: null,
+    links: NO_PAGE_LINKS,
+    defaultTheme: authorStyle.defaultTheme,
+    authorCss: authorStyle.css,
+    pageCss: sanitizeCss(rendered.frontmatter.css).css
+  };
+}
+
+// Props for the statically generated copy of a page, which everyone gets: the
+// content of password-protected and private pages is left out of it. Pass the
+// owner's username and style, if they have them
+export function toStaticPageProps(
+  page: PublicPageRecord,
+  username: string | null,
+  authorStyle: AuthorStyle = NO_AUTHOR_STYLE
+): PublicPageProps {
+  const visibility = page.visibility || 'public';
+  if (visibility !== 'password' && visibility !== 'private') {
+    return { ...toPublicPageProps(page, pagePath(page.slug, username), authorStyle), author: username };
+  }
+
+  return {
+    ast: null,
+    frontmatter: {},
+    slug: page.slug,
+    pageId: page.id,
+    gate: visibility,
+    seo: buildHiddenPageSeo(),
+    author: username,
+    links: NO_PAGE_LINKS,
+    defaultTheme: authorStyle.defaultTheme,
+    authorCss: authorStyle.css,
+    pageCss: ''
+  };
+}
@@ -0,0 +1,78 @@
+import { supabase } from './auth';
+import { compilePage, RENDER_VERSION, toRenderedColumns } from './markdown';
+import { syncPageTags } from './tags';
+import { syncPageLinks } from './pageLinks';
+
+// Columns the dashboard lists pages with: metadata instead of the markdown and rendered tree
+export const PAGE_LIST_COLUMNS = 'id, slug, folder_id, user_id, status, publish_at, unpublish_at, visibility, title, description, tags, word_count, excerpt, render_version, created_at, updated_at, deleted_at';
+
+// Pages compiled per dashboard load. A RENDER_VERSION bump makes every page
+// stale, so large accounts are caught up over a few loads instead of one slow
+// one; public pages compile stale pages on their own until then
+const MAX_RERENDERED_PAGES = 25;
+
+interface ListedPage {
+  id: number;
+  render_version: number | null;
+}
+
+type ListedMetadata = 'title' | 'description' | 'tags' | 'word_count' | 'excerpt' | 'render_version';
+
+// Helper function to compile pages saved before the current RENDER_VERSION
+// (including pages from before compiled rendering existed) and store the
+// result, returning the pages with their fresh metadata
+export async function rerenderStalePages<T extends ListedPage>(pages: T[]): Promise<T[]> {
+  const staleIds = pages
+    .filter((page) => page.render_version !== RENDER_VERSION)
+    .slice(0, MAX_RERENDERED_PAGES)
+    .map((page) => page.id);
+  if (staleIds.length === 0) return pages;
+
+  const { data: stalePages, error } = await supabase
+    .from('pages')
+    .select('id, user_id, markdown, updated_at')
+    .in('id', staleIds);
+
+  if (error) {
+    console.error('Error fetching pages to re-render:', error);
+    return pages;
+  }
+
+  const refreshed = new Map<number, Pick<ReturnType<typeof toRenderedColumns>, ListedMetadata>>();
+  for (const page of stalePages || []) {
+    const rendered = toRenderedColumns(compilePage(page.markdown));
+
+    // Not an edit, so updated_at is left alone. Only written if nobody saved
+    // the page since it was read; a save renders it anyway
+    const { data: updatedPages, error: updateError } = await supabase
+      .from('pages')
+      .update(rendered)
+      .eq('id', page.id)
+      .eq('updated_at', page.updated_at)
+      .select('id');
+
+    if (updateError) {
+      console.error('Error saving re-rendered page:', updateError);
+      continue;
+    }
+
+    if (!updatedPages || updatedPages.length === 0) continue;
+
+    if (page.user_id) {
+      const { error: tagsError } = await syncPageTags(page.id, page.user_id, rendered.tags);
+      if (tagsError) {
+        console.error('Error saving page tags:', tagsError);
+      }
+
+      const { error: linksError } = await syncPageLinks(page.id, page.user_id, rendered.wiki_links, rendered.embeds);
+      if (linksError) {
+        console.error('Error saving page links:', linksError);
+      }
+    }
+
+    const { title, description, tags, word_count, excerpt, render_version } = rendered;
+    refreshed.set(page.id, { title, description, tags, word_count, excerpt, render_version });
+  }
+
+  return pages.map((page) => (refreshed.has(page.id) ? { ...page, ...refreshed.get(page.id) } : page));
+}
@@ -0,0 +1,89 @@
+import { NextApiResponse } from 'next';
+import { supabase } from './auth';
+import { getConnectedSlugs } from './pageLinks';
+import { getLegacySlugFallback, getUsernameForUser } from './publicPages';
+import { PageSchedule } from './pageStatus';
+import { pagePath, tagPath } from './urls';
+
+// Longest a statically generated page is served before it is regenerated.
+// Changes made through the API revalidate pages on demand, so this only
+// catches edits made directly in the database
+export const PAGE_REVALIDATE_SECONDS = 60 * 60;
+
+// Seconds until a generated page must be regenerated: the next time one of the
+// pages behind its URL is scheduled to go live or come down, capped at
+// PAGE_REVALIDATE_SECONDS
+export function getRevalidateSeconds(pages: PageSchedule[], now: Date = new Date()): number {
+  let seconds = PAGE_REVALIDATE_SECONDS;
+
+  for (const page of pages) {
+    for (const boundary of [page.publish_at, page.unpublish_at]) {
+      if (!boundary) continue;
+      const secondsUntil = Math.ceil((new Date(boundary).getTime() - now.getTime()) / 1000);
+      if (secondsUntil > 0) {
+        seconds = Math.min(seconds, secondsUntil);
+      }
+    }
+  }
+
+  return Math.max(seconds, 1);
+}
+
+// Helper function to regenerate the static copies of a user's pages after they
+// change, along with the tag pages listing them and the pages linked to or from
+// them. Pass usernames when they differ from the current one (e.g. after a
+// username change), and the tags and [[slug]] links the pages had before the
+// change. Failures are only logged: the change itself is saved and the copies
+// expire on their own
+export async function revalidatePages(
+  res: NextApiResponse,
+  userId: string,
+  slugs: string[],
+  usernames?: (string | null)[],
+  previousTags: string[] = [],
+  previousLinks: string[] = []
+) {
+  const owners = usernames ?? [await getUsernameForUser(userId)];
+  const servesLegacySlugs = getLegacySlugFallback() !== 'off';
+
+  // Linked pages show whether these pages exist, and which of them link back
+  const linkedSlugs = await getConnectedSlugs(userId, slugs);
+  const pageSlugs = new Set([...slugs, ...linkedSlugs, ...previousLinks]);
+
+  const paths = new Set<string>();
+  for (const slug of Array.from(pageSlugs)) {
+    for (const username of owners) {
+      if (username) paths.add(pagePath(slug, username));
+    }
+    if (servesLegacySlugs) paths.add(pagePath(slug));
+  }
+
+  const tags = new Set(previousTags);
+  const { data: taggedPages, error: tagsError } = await supabase
+    .from('pages')
+    .select('tags')
+    .eq('user_id', userId)
+    .in('slug', slugs);
+
+  if (tagsError) {
+    console.error('Error fetching page tags to revalidate:', tagsError);
+  }
+
+  for (const page of taggedPages || []) {
+    for (const tag of page.tags || []) tags.add(tag);
+  }
+
+  for (const tag of Array.from(tags)) {
+    for (const username of owners) {
+      if (username) paths.add(tagPath(username, tag));
+    }
+  }
+
+  await Promise.all(Array.from(paths).map(async (path) => {
+    try {
+      await res.revalidate(path);
+    } catch (error) {
+      console.error(`Error revalidating ${path}:`, error);
+    }
+  }));
+}
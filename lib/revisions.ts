@@ -0,0 +1,54 @@
+import { supabase } from './auth';
+
+export interface PageRevision {
+  id: number;
+  page_id: number;
+  user_id: string | null;
+  revision_number: number;
+  markdown: string;
+  restored_from_revision_id: number | null;
+  created_at: string;
+}
+
+// Times to try the next revision number when a concurrent save takes it first
+const MAX_REVISION_ATTEMPTS = 5;
+
+// Helper function to append a new revision to a page's history. Numbers are
+// the latest plus one; unique_page_revision_number rejects a number another
+// save took in the meantime, and the next one is tried
+export async function recordRevision(
+  pageId: number,
+  userId: string,
+  markdown: string,
+  restoredFromRevisionId: number | null = null
+) {
+  for (let attempt = 1; ; attempt++) {
+    const { data: latest, error: latestError } = await supabase
+      .from('page_revisions')
+      .select('revision_number')
+      .eq('page_id', pageId)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      return { revision: null, error: latestError };
+    }
+
+    const { data: revision, error } = await supabase
+      .from('page_revisions')
+      .insert({
+        page_id: pageId,
+        user_id: userId,
+        revision_number: (latest?.revision_number || 0) + 1,
+        markdown,
+        restored_from_revision_id: restoredFromRevisionId
+      })
+      .select('id, page_id, user_id, revision_number, markdown, restored_from_revision_id, created_at')
+      .single();
+
+    if (error?.code === '23505' && attempt < MAX_REVISION_ATTEMPTS) continue;
+
+    return { revision: revision as PageRevision | null, error };
+  }
+}
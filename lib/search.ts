@@ -0,0 +1,96 @@
+import { supabase } from './auth';
+import { getEffectiveStatus, PageStatus } from './pageStatus';
+import { pagePath } from './urls';
+import { isPageListed, PageVisibility } from './visibility';
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+const SEARCH_LIMIT = 20;
+
+// Snippets come back from Postgres with matches between these markers
+const MATCH_MARKERS = /(<mark>|<\/mark>)/;
+
+// A piece of a snippet; matched words are highlighted. Text is never HTML
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  id: number;
+  slug: string;
+  title: string;
+  path: string;
+  status: PageStatus;
+  visibility: PageVisibility;
+  updatedAt: string;
+  snippet: SnippetPart[];
+}
+
+interface SearchRow {
+  id: number;
+  slug: string;
+  title: string | null;
+  status: PageStatus | null;
+  publish_at: string | null;
+  unpublish_at: string | null;
+  visibility: PageVisibility | null;
+  updated_at: string;
+  rank: number;
+  snippet: string | null;
+}
+
+// Split a ts_headline snippet into plain and matched parts
+export function parseSnippet(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let match = false;
+
+  for (const piece of headline.split(MATCH_MARKERS)) {
+    if (piece === '<mark>') {
+      match = true;
+    } else if (piece === '</mark>') {
+      match = false;
+    } else if (piece) {
+      parts.push({ text: piece, match });
+    }
+  }
+
+  return parts;
+}
+
+// Helper function to search a user's pages, best matches first. With
+// publicOnly, only pages anyone may see are searched (for an author's public
+// search box); otherwise every page outside the trash is
+export async function searchPages(
+  userId: string,
+  username: string | null,
+  query: string,
+  publicOnly: boolean
+): Promise<SearchResult[]> {
+  const { data, error } = await supabase.rpc('search_pages', {
+    owner_id: userId,
+    search_query: query,
+    public_only: publicOnly,
+    result_limit: SEARCH_LIMIT
+  });
+
+  if (error) {
+    console.error('Error searching pages:', error);
+    throw error;
+  }
+
+  const rows: SearchRow[] = data || [];
+
+  return rows
+    .filter(row => !publicOnly || isPageListed(row))
+    .map(row => ({
+      id: row.id,
+      slug: row.slug,
+      title: row.title || row.slug,
+      path: pagePath(row.slug, username),
+      status: getEffectiveStatus(row),
+      visibility: row.visibility || 'public',
+      updatedAt: row.updated_at,
+      snippet: parseSnippet(row.snippet || '')
+    }));
+}
@@ -0,0 +1,97 @@
+import type { Frontmatter } from './frontmatter';
+import type { PageMedia } from './markdown';
+
+export const SITE_NAME = 'Borrd';
+
+// What a page tells search engines and link previews about itself
+export interface PageSeo {
+  title: string;
+  description: string | null;
+  // Canonical URL; null when NEXT_PUBLIC_SITE_URL isn't set and none is given in frontmatter
+  url: string | null;
+  image: string | null;
+  imageAlt: string | null;
+  publishedTime: string | null;
+  tags: string[];
+  noindex: boolean;
+}
+
+export interface SeoSource {
+  id: number;
+  slug: string;
+  title: string | null;
+  description: string | null;
+  tags: string[];
+  media: PageMedia[];
+  frontmatter: Frontmatter;
+  publish_at: string | null;
+  updated_at: string;
+}
+
+// Public base URL of the site, e.g. https://borrd.example (no trailing slash)
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || '').replace(/\/+$/, '');
+}
+
+// Link previews need absolute URLs; paths are resolved against NEXT_PUBLIC_SITE_URL
+// and anything else (relative paths, other protocols) is dropped
+export function absoluteUrl(pathOrUrl: string): string | null {
+  if (/^https?:\/\//i.test(pathOrUrl)) return pathOrUrl;
+
+  const siteUrl = getSiteUrl();
+  if (!siteUrl || !pathOrUrl.startsWith('/') || pathOrUrl.startsWith('//')) return null;
+  return `${siteUrl}${pathOrUrl}`;
+}
+
+// Generated Open Graph card of a page. The version changes whenever the page
+// does, so caches never serve a card for older content
+export function ogImagePath(pageId: number, version: string): string {
+  return `/api/og?pageId=${pageId}&v=${encodeURIComponent(Date.parse(version).toString(36))}`;
+}
+
+// Head tags of a page from its frontmatter and content: frontmatter fields
+// first, then the first heading, first paragraph and first image, and finally
+// a generated card
+export function buildPageSeo(page: SeoSource, path: string | null, noindex: boolean): PageSeo {
+  const firstImage = page.media.find((item) => item.type === 'image');
+  const image = page.frontmatter.image || firstImage?.url || ogImagePath(page.id, page.updated_at);
+
+  return {
+    title: page.title || page.slug,
+    description: page.description,
+    url: page.frontmatter.canonical || (path ? absoluteUrl(path) : null),
+    image: absoluteUrl(image),
+    imageAlt: page.frontmatter.image ? null : firstImage?.alt || null,
+    publishedTime: page.frontmatter.date || page.publish_at,
+    tags: page.tags,
+    noindex
+  };
+}
+
+// Head tags for pages listing other pages, like tag pages
+export function buildListingSeo(title: string, description: string, path: string): PageSeo {
+  return {
+    title,
+    description,
+    url: absoluteUrl(path),
+    image: null,
+    imageAlt: null,
+    publishedTime: null,
+    tags: [],
+    noindex: false
+  };
+}
+
+// Head tags for pages whose content isn't public: nothing about the page itself
+export function buildHiddenPageSeo(): PageSeo {
+  return {
+    title: SITE_NAME,
+    description: null,
+    url: null,
+    image: null,
+    imageAlt: null,
+    publishedTime: null,
+    tags: [],
+    noindex: true
+  };
+}
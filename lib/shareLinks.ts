@@ -0,0 +1,59 @@
+import { randomBytes } from 'crypto';
+import { supabase } from './auth';
+import { signValue, verifySignedValue } from './signing';
+
+export interface ShareLink {
+  id: number;
+  page_id: number;
+  user_id: string | null;
+  token: string;
+  expires_at: string | null;
+  max_views: number | null;
+  view_count: number;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export function generateShareToken(): string {
+  return randomBytes(18).toString('base64url');
+}
+
+// Path of the public share URL; the stored token is signed so guessed or
+// tampered tokens are rejected before touching the database
+export function shareLinkPath(link: Pick<ShareLink, 'token'>): string {
+  return `/s/${signValue(link.token)}`;
+}
+
+export function isShareLinkActive(link: ShareLink, now: Date = new Date()): boolean {
+  if (link.revoked_at) return false;
+  if (link.expires_at && new Date(link.expires_at) <= now) return false;
+  if (link.max_views !== null && link.view_count >= link.max_views) return false;
+  return true;
+}
+
+// Helper function to redeem a share URL token: counts the view and returns the
+// shared page, or null when the link is invalid, revoked, expired or used up
+export async function redeemShareToken(signedToken: string) {
+  const token = verifySignedValue(signedToken);
+  if (!token) return null;
+
+  const { data: pageId, error: useError } = await supabase.rpc('use_share_link', { link_token: token });
+
+  if (useError) {
+    console.error('Error using share link:', useError);
+    return null;
+  }
+
+  if (!pageId) return null;
+
+  const { data: page, error: pageError } = await supabase
+    .from('pages')
+    .select('*')
+    .eq('id', pageId)
+    .is('deleted_at', null)
+    .single();
+
+  if (pageError || !page) return null;
+
+  return page;
+}
@@ -0,0 +1,61 @@
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+// Secret for signed cookies and tokens; falls back to the service role key so
+// existing deployments work without extra configuration
+function getSigningSecret(): string {
+  const secret = process.env.PAGE_SIGNING_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('PAGE_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+function hmac(value: string): string {
+  return createHmac('sha256', getSigningSecret()).update(value).digest('base64url');
+}
+
+// Compare two strings without leaking how much of them matched
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// Append an HMAC signature to a value: "<value>.<signature>"
+export function signValue(value: string): string {
+  return `${value}.${hmac(value)}`;
+}
+
+// Return the original value if the signature is valid, otherwise null
+export function verifySignedValue(signed: string | undefined | null): string | null {
+  if (!signed) return null;
+
+  const separator = signed.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const value = signed.slice(0, separator);
+  const signature = signed.slice(separator + 1);
+  return safeEqual(signature, hmac(value)) ? value : null;
+}
+
+// Hash a page password as "scrypt$<salt>$<hash>"
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('base64url');
+  const hash = scryptSync(password, salt, 32).toString('base64url');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string | null): boolean {
+  if (!stored) return false;
+
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  return safeEqual(scryptSync(password, salt, 32).toString('base64url'), hash);
+}
+
+// Short, stable fingerprint of a password hash. Unlock cookies include it so
+// that changing a page's password locks out everyone who unlocked the old one
+export function passwordFingerprint(stored: string): string {
+  return createHash('sha256').update(stored).digest('base64url').slice(0, 16);
+}
@@ -0,0 +1,124 @@
+import { supabase } from './auth';
+import { isPageLive, PageStatus } from './pageStatus';
+import { getLegacySlugFallback, getUsernamesForUsers } from './publicPages';
+import { pagePath } from './urls';
+import { escapeXml } from './xml';
+
+// Well below the 50,000 URLs a sitemap may hold, and no more than the 1,000 rows
+// Supabase returns per request by default, which would cut longer chunks short
+export const SITEMAP_CHUNK_SIZE = 1000;
+
+export const SITEMAP_CACHE_CONTROL = 'public, max-age=0, s-maxage=3600, stale-while-revalidate=86400';
+
+// Paths crawlers have no business with: the app itself, API routes and share
+// links. /api/og stays allowed since link preview bots fetch it
+const DISALLOWED_PATHS = ['/api/', '/s/', '/dashboard', '/editor', '/login'];
+const ALLOWED_PATHS = ['/api/og'];
+
+export interface SitemapEntry {
+  path: string;
+  lastmod: string;
+}
+
+interface SitemapPage {
+  slug: string;
+  user_id: string | null;
+  status: PageStatus | null;
+  publish_at: string | null;
+  unpublish_at: string | null;
+  updated_at: string;
+}
+
+// Public URL paths of pages: the namespaced URL when the owner has a username,
+// otherwise the flat one while flat URLs are served
+async function toPagePaths<T extends SitemapPage>(pages: T[]): Promise<{ page: T; path: string }[]> {
+  const usernames = await getUsernamesForUsers(pages.flatMap(page => (page.user_id ? [page.user_id] : [])));
+  const servesLegacySlugs = getLegacySlugFallback() !== 'off';
+
+  return pages.flatMap((page) => {
+    const username = page.user_id ? usernames.get(page.user_id) : undefined;
+    if (!username && !servesLegacySlugs) return [];
+    return [{ page, path: pagePath(page.slug, username) }];
+  });
+}
+
+// Helper function to count the sitemap chunks listed in the index. Counted before
+// schedules and noindex are applied, so a chunk may list fewer pages than its size
+export async function countSitemapChunks(): Promise<number> {
+  const { count, error } = await supabase
+    .from('pages')
+    .select('id', { count: 'exact', head: true })
+    .eq('visibility', 'public')
+    .is('deleted_at', null);
+
+  if (error) {
+    console.error('Error counting pages:', error);
+    throw error;
+  }
+
+  return Math.max(1, Math.ceil((count || 0) / SITEMAP_CHUNK_SIZE));
+}
+
+// Helper function to load one chunk of the sitemap: live public pages that
+// aren't marked noindex, by id so chunks stay stable as pages are added
+export async function loadSitemapChunk(chunk: number): Promise<SitemapEntry[]> {
+  const from = chunk * SITEMAP_CHUNK_SIZE;
+  const { data: pages, error } = await supabase
+    .from('pages')
+    .select('id, slug, user_id, status, publish_at, unpublish_at, frontmatter, updated_at')
+    .eq('visibility', 'public')
+    .is('deleted_at', null)
+    .order('id', { ascending: true })
+    .range(from, from + SITEMAP_CHUNK_SIZE - 1);
+
+  if (error) {
+    console.error('Error fetching sitemap pages:', error);
+    throw error;
+  }
+
+  const listed = (pages || []).filter(page => isPageLive(page) && page.frontmatter?.noindex !== true);
+  const paths = await toPagePaths(listed);
+
+  return paths.map(({ page, path }) => ({ path, lastmod: new Date(page.updated_at).toISOString() }));
+}
+
+export function renderSitemapIndex(siteUrl: string, chunkCount: number): string {
+  const sitemaps = Array.from({ length: chunkCount }, (_, chunk) =>
+    `  <sitemap><loc>${escapeXml(`${siteUrl}/sitemaps/${chunk}.xml`)}</loc></sitemap>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    '</sitemapindex>',
+    ''
+  ].join('\n');
+}
+
+export function renderSitemap(siteUrl: string, entries: SitemapEntry[]): string {
+  const urls = entries.map(entry =>
+    `  <url><loc>${escapeXml(`${siteUrl}${entry.path}`)}</loc><lastmod>${entry.lastmod}</lastmod></url>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    ''
+  ].join('\n');
+}
+
+// Pages marked noindex aren't disallowed here: crawlers kept out of a page never
+// see its noindex meta tag, and robots.txt would list their URLs for anyone
+export function renderRobots(siteUrl: string): string {
+  return [
+    'User-agent: *',
+    ...ALLOWED_PATHS.map(path => `Allow: ${path}`),
+    ...DISALLOWED_PATHS.map(path => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${siteUrl}/sitemap.xml`,
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,97 @@
+import { supabase } from './auth';
+import { PublicPageRecord } from './publicPages';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Helper function to make a page's rows in page_tags match its current tags.
+// Returns the tags it had before, whose tag pages may have lost it
+export async function syncPageTags(pageId: number, userId: string, tags: string[]) {
+  const { data: existing, error: existingError } = await supabase
+    .from('page_tags')
+    .select('tag')
+    .eq('page_id', pageId);
+
+  if (existingError) {
+    return { previousTags: [] as string[], error: existingError };
+  }
+
+  const previousTags: string[] = (existing || []).map((row) => row.tag);
+
+  const removed = previousTags.filter((tag) => !tags.includes(tag));
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('page_tags')
+      .delete()
+      .eq('page_id', pageId)
+      .in('tag', removed);
+
+    if (error) return { previousTags, error };
+  }
+
+  const added = tags.filter((tag) => !previousTags.includes(tag));
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('page_tags')
+      .upsert(added.map((tag) => ({ page_id: pageId, user_id: userId, tag })), { ignoreDuplicates: true });
+
+    if (error) return { previousTags, error };
+  }
+
+  return { previousTags, error: null };
+}
+
+// Helper function to count how many of a user's pages (outside the trash) have each tag
+export async function getTagCounts(userId: string): Promise<TagCount[]> {
+  const { data: rows, error } = await supabase
+    .from('page_tags')
+    .select('tag, pages!inner(deleted_at)')
+    .eq('user_id', userId)
+    .is('pages.deleted_at', null);
+
+  if (error) {
+    console.error('Error fetching tags:', error);
+    throw error;
+  }
+
+  const counts = new Map<string, number>();
+  for (const row of rows || []) {
+    counts.set(row.tag, (counts.get(row.tag) || 0) + 1);
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+// Helper function to load an author's pages with a tag, live or not, so the
+// caller can both list the live ones and schedule around the others
+export async function loadTaggedPages(userId: string, tag: string): Promise<PublicPageRecord[]> {
+  const { data: rows, error } = await supabase
+    .from('page_tags')
+    .select('page_id')
+    .eq('user_id', userId)
+    .eq('tag', tag);
+
+  if (error) {
+    console.error('Error fetching tagged pages:', error);
+    throw error;
+  }
+
+  const pageIds = (rows || []).map((row) => row.page_id);
+  if (pageIds.length === 0) return [];
+
+  const { data: pages, error: pagesError } = await supabase
+    .from('pages')
+    .select('*')
+    .in('id', pageIds)
+    .is('deleted_at', null);
+
+  if (pagesError) {
+    console.error('Error fetching tagged pages:', pagesError);
+    throw pagesError;
+  }
+
+  return pages || [];
+}
@@ -0,0 +1,220 @@
+import { isPageTheme, PageFont, PageTheme } from './frontmatter';
+
+export type CodeTheme = 'light' | 'dark';
+
+export interface ThemeColors {
+  background: string;
+  text: string;
+  headings: string;
+  links: string;
+  // Captions, list markers and the page's own chrome (backlinks, search)
+  muted: string;
+  // Rules, table lines and the edges of boxes
+  border: string;
+  code: string;
+}
+
+export interface Theme {
+  name: PageTheme;
+  label: string;
+  // Used unless the page sets `font`
+  font: PageFont;
+  // Typography scale: the prose-* size class of the page body
+  scale: 'prose-base' | 'prose-lg' | 'prose-xl';
+  colors: ThemeColors;
+  // Colors for readers whose system is set to dark mode. Dark themes have none
+  darkColors: ThemeColors | null;
+}
+
+// How a theme is shown: following the reader's system, or forced one way (the
+// editor preview switcher)
+export type ThemeMode = 'system' | 'light' | 'dark';
+
+// Class of the element a theme applies to
+export const THEME_SCOPE = 'page-theme';
+
+const DARK_GRAY: ThemeColors = {
+  background: '#111827',
+  text: '#d1d5db',
+  headings: '#f9fafb',
+  links: '#93c5fd',
+  muted: '#9ca3af',
+  border: '#374151',
+  code: '#f3f4f6'
+};
+
+export const THEMES: Record<PageTheme, Theme> = {
+  default: {
+    name: 'default',
+    label: 'Default',
+    font: 'sans',
+    scale: 'prose-lg',
+    colors: {
+      background: '#ffffff',
+      text: '#374151',
+      headings: '#111827',
+      links: '#1d4ed8',
+      muted: '#6b7280',
+      border: '#e5e7eb',
+      code: '#111827'
+    },
+    darkColors: DARK_GRAY
+  },
+  paper: {
+    name: 'paper',
+    label: 'Paper',
+    font: 'serif',
+    scale: 'prose-lg',
+    colors: {
+      background: '#fbf7ef',
+      text: '#3f3a33',
+      headings: '#1f1b16',
+      links: '#9a3412',
+      muted: '#78716c',
+      border: '#e7dfd0',
+      code: '#44403c'
+    },
+    darkColors: {
+      background: '#1c1917',
+      text: '#d6d3d1',
+      headings: '#fafaf9',
+      links: '#fdba74',
+      muted: '#a8a29e',
+      border: '#44403c',
+      code: '#e7e5e4'
+    }
+  },
+  slate: {
+    name: 'slate',
+    label: 'Slate',
+    font: 'sans',
+    scale: 'prose-base',
+    colors: {
+      background: '#f8fafc',
+      text: '#334155',
+      headings: '#0f172a',
+      links: '#0f766e',
+      muted: '#64748b',
+      border: '#e2e8f0',
+      code: '#0f172a'
+    },
+    darkColors: {
+      background: '#0f172a',
+      text: '#cbd5e1',
+      headings: '#f8fafc',
+      links: '#5eead4',
+      muted: '#94a3b8',
+      border: '#334155',
+      code: '#e2e8f0'
+    }
+  },
+  reader: {
+    name: 'reader',
+    label: 'Reader',
+    font: 'serif',
+    scale: 'prose-xl',
+    colors: {
+      background: '#ffffff',
+      text: '#27272a',
+      headings: '#09090b',
+      links: '#7c3aed',
+      muted: '#71717a',
+      border: '#e4e4e7',
+      code: '#18181b'
+    },
+    darkColors: {
+      ...DARK_GRAY,
+      background: '#18181b',
+      links: '#c4b5fd',
+      border: '#3f3f46'
+    }
+  },
+  terminal: {
+    name: 'terminal',
+    label: 'Terminal',
+    font: 'mono',
+    scale: 'prose-base',
+    colors: {
+      background: '#0b0f0c',
+      text: '#c8d3c5',
+      headings: '#e6f4e2',
+      links: '#4ade80',
+      muted: '#7d8b7a',
+      border: '#1f2a21',
+      code: '#86efac'
+    },
+    darkColors: null
+  }
+};
+
+// The page's theme, else its author's default, else the default theme
+export function getTheme(pageTheme?: string | null, defaultTheme?: string | null): Theme {
+  if (isPageTheme(pageTheme)) return THEMES[pageTheme];
+  if (isPageTheme(defaultTheme)) return THEMES[defaultTheme];
+  return THEMES.default;
+}
+
+// Code blocks are dark on dark page backgrounds and light on everything else.
+// Kept apart from lib/codeBlocks.ts, so pages that only need this don't bundle
+// the highlighter
+export function getCodeTheme(background?: string): CodeTheme {
+  const match = background?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return 'light';
+
+  const [red, green, blue] = match.slice(1).map((hex) => parseInt(hex, 16));
+  return 0.299 * red + 0.587 * green + 0.114 * blue < 128 ? 'dark' : 'light';
+}
+
+function isDark(colors: ThemeColors): boolean {
+  return getCodeTheme(colors.background) === 'dark';
+}
+
+// Code blocks follow the theme, and the reader's system when the theme has a
+// dark variant. A page's own `background` replaces the theme's, and its variant
+export function getThemeCodeTheme(theme: Theme, mode: ThemeMode, background?: string): CodeTheme | 'system' {
+  if (background) return getCodeTheme(background);
+  if (mode === 'dark' && theme.darkColors) return 'dark';
+  if (mode === 'system' && theme.darkColors) return 'system';
+  return isDark(theme.colors) ? 'dark' : 'light';
+}
+
+function colorRules(scope: string, colors: ThemeColors): string {
+  return `${scope} {
+  background-color: ${colors.background};
+  color: ${colors.text};
+  --page-muted: ${colors.muted};
+  --page-border: ${colors.border};
+  --page-link: ${colors.links};
+}
+${scope} .prose {
+  --tw-prose-body: ${colors.text};
+  --tw-prose-headings: ${colors.headings};
+  --tw-prose-lead: ${colors.text};
+  --tw-prose-links: ${colors.links};
+  --tw-prose-bold: ${colors.headings};
+  --tw-prose-counters: ${colors.muted};
+  --tw-prose-bullets: ${colors.muted};
+  --tw-prose-hr: ${colors.border};
+  --tw-prose-quotes: ${colors.headings};
+  --tw-prose-quote-borders: ${colors.border};
+  --tw-prose-captions: ${colors.muted};
+  --tw-prose-code: ${colors.code};
+  --tw-prose-th-borders: ${colors.border};
+  --tw-prose-td-borders: ${colors.border};
+}`;
+}
+
+// CSS that applies a theme to the element with the THEME_SCOPE class. A page's
+// own `background` replaces the theme's, and turns off its dark variant
+export function buildThemeCss(theme: Theme, mode: ThemeMode, background?: string): string {
+  const scope = `.${THEME_SCOPE}`;
+
+  if (background) return colorRules(scope, { ...theme.colors, background });
+  if (!theme.darkColors || mode === 'light') return colorRules(scope, theme.colors);
+  if (mode === 'dark') return colorRules(scope, theme.darkColors);
+
+  return `${colorRules(scope, theme.colors)}
+@media (prefers-color-scheme: dark) {
+${colorRules(scope, theme.darkColors)}
+}`;
+}
@@ -0,0 +1,42 @@
+import type { FeedFormat, FeedMode } from './feeds';
+
+// Lowercase letters, numbers and inner hyphens, 1-32 characters
+export const USERNAME_PATTERN = /^[a-z0-9]([a-z0-9-]{0,30}[a-z0-9])?$/;
+
+export function isValidUsername(username: string): boolean {
+  return USERNAME_PATTERN.test(username);
+}
+
+// Public URL path for a page, namespaced by its owner's username when they have one
+export function pagePath(slug: string, username?: string | null): string {
+  return username ? `/u/${username}/${slug}` : `/${slug}`;
+}
+
+// Public page listing an author's pages with a tag
+export function tagPath(username: string, tag: string): string {
+  return `/u/${username}/tags/${encodeURIComponent(tag)}`;
+}
+
+const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json'
+};
+
+// Public URL path of an author's feed, optionally limited to one folder
+export function feedPath(username: string, format: FeedFormat, folderId?: number | null, mode: FeedMode = 'full'): string {
+  const params = new URLSearchParams();
+  if (folderId) params.set('folder', String(folderId));
+  if (mode !== 'full') params.set('mode', mode);
+  const query = params.toString();
+  return `/u/${username}/${FEED_FILES[format]}${query ? `?${query}` : ''}`;
+}
+
+// Supabase storage buckets media is uploaded to from the editor
+export const STORAGE_BUCKETS = ['images', 'audio', 'videos'] as const;
+
+// Public URL of an object in a storage bucket, from its path (e.g. images/photo.jpg)
+export function storagePublicUrl(objectPath: string): string {
+  const supabaseUrl = (process.env.NEXT_PUBLIC_SUPABASE_URL || '').replace(/\/+$/, '');
+  return `${supabaseUrl}/storage/v1/object/public/${objectPath.replace(/^\/+/, '')}`;
+}
@@ -0,0 +1,18 @@
+import { isPageLive, PageSchedule } from './pageStatus';
+
+export type PageVisibility = 'public' | 'unlisted' | 'password' | 'private';
+
+// What stands between a visitor and the content of a statically generated page
+export type PageGate = 'none' | 'password' | 'private';
+
+export const PAGE_VISIBILITIES: PageVisibility[] = ['public', 'unlisted', 'password', 'private'];
+
+export function isPageVisibility(value: unknown): value is PageVisibility {
+  return typeof value === 'string' && PAGE_VISIBILITIES.includes(value as PageVisibility);
+}
+
+// Whether a page may appear in listings, feeds and sitemaps. Unlisted pages are
+// reachable by URL but never advertised; password and private pages are never listed
+export function isPageListed(page: PageSchedule & { visibility?: PageVisibility | null }): boolean {
+  return isPageLive(page) && (page.visibility || 'public') === 'public';
+}
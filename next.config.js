@@ -2,6 +2,18 @@
 const nextConfig = {
   experimental: {
   },
+  async rewrites() {
+    // Feeds, sitemaps and robots.txt are generated by API routes. Slugs can't
+    // contain dots, so these never clash with page URLs
+    return [
+      { source: '/u/:username/feed.xml', destination: '/api/feed?username=:username&format=rss' },
+      { source: '/u/:username/atom.xml', destination: '/api/feed?username=:username&format=atom' },
+      { source: '/u/:username/feed.json', destination: '/api/feed?username=:username&format=json' },
+      { source: '/sitemap.xml', destination: '/api/sitemap' },
+      { source: '/sitemaps/:chunk.xml', destination: '/api/sitemap?chunk=:chunk' },
+      { source: '/robots.txt', destination: '/api/robots' },
+    ]
+  },
 }
 
-module.exports = nextConfig 
\ No newline at end of file
+module.exports = nextConfig
@@ -0,0 +1,42 @@
+-- Keep what isn't public away from the public (anon) key, which ships with the
+-- site. The API routes use the service role key, which bypasses row level security.
+-- The other tables turn row level security on in their own migrations
+
+-- Password hashes move out of pages into a table no policy opens up, so only
+-- the service role can read them
+CREATE TABLE IF NOT EXISTS page_passwords (
+  page_id INTEGER PRIMARY KEY REFERENCES pages(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL
+);
+
+COMMENT ON COLUMN page_passwords.password_hash IS 'scrypt hash of the page password (password visibility only)';
+
+ALTER TABLE page_passwords ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO page_passwords (page_id, password_hash)
+SELECT id, password_hash FROM pages WHERE password_hash IS NOT NULL
+ON CONFLICT (page_id) DO UPDATE SET password_hash = EXCLUDED.password_hash;
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS password_pages_have_password;
+ALTER TABLE pages DROP COLUMN IF EXISTS password_hash;
+
+-- Anyone may read live public and unlisted pages (the rules of lib/pageStatus.ts);
+-- signed-in users may also read their own pages, which the editor does directly.
+-- Writes only go through the API routes
+ALTER TABLE pages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read live public pages" ON pages;
+CREATE POLICY "Anyone can read live public pages" ON pages
+  FOR SELECT TO anon, authenticated
+  USING (
+    deleted_at IS NULL
+    AND visibility IN ('public', 'unlisted')
+    AND status IN ('published', 'scheduled')
+    AND (publish_at IS NULL OR publish_at <= NOW())
+    AND (unpublish_at IS NULL OR unpublish_at > NOW())
+  );
+
+DROP POLICY IF EXISTS "Owners can read their pages" ON pages;
+CREATE POLICY "Owners can read their pages" ON pages
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
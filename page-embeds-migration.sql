@@ -0,0 +1,21 @@
+-- Add embedding one page in another
+-- ![[slug]] and ![[slug#heading]] are stored in page_links next to [[slug]]
+-- links, so republishing a page also regenerates the pages embedding it
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS embeds TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN pages.embeds IS 'Slugs embedded with ![[slug]] in the page, as of its last compile';
+
+-- A page can both link to and embed the same page
+ALTER TABLE page_links ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'link';
+
+ALTER TABLE page_links DROP CONSTRAINT IF EXISTS valid_link_kind;
+ALTER TABLE page_links ADD CONSTRAINT valid_link_kind CHECK (kind IN ('link', 'embed'));
+
+ALTER TABLE page_links DROP CONSTRAINT IF EXISTS page_links_pkey;
+ALTER TABLE page_links ADD CONSTRAINT page_links_pkey PRIMARY KEY (source_page_id, target_slug, kind);
+
+COMMENT ON COLUMN page_links.kind IS 'link for [[slug]], embed for ![[slug]]';
+
+-- Existing pages are compiled again the next time their owner opens the
+-- dashboard (RENDER_VERSION changed), which fills in their embeds
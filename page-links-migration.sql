@@ -0,0 +1,27 @@
+-- Add links between pages
+-- One row per [[slug]] link in a page, pointing at another page of the same
+-- author by slug, so links to pages that don't exist yet are kept too.
+-- /api/publish keeps them in sync, and they back the backlinks shown on each page
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS wiki_links TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN pages.wiki_links IS 'Slugs linked with [[slug]] in the page, as of its last compile';
+
+CREATE TABLE IF NOT EXISTS page_links (
+  source_page_id INTEGER NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_slug TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (source_page_id, target_slug),
+  CONSTRAINT valid_target_slug CHECK (target_slug ~ '^[a-zA-Z0-9_-]+$')
+);
+
+-- Add index for finding the pages that link to one of an author's pages
+CREATE INDEX IF NOT EXISTS idx_page_links_user_target ON page_links(user_id, target_slug);
+
+-- Links are kept in sync by /api/publish (service role); no policies for the public key
+ALTER TABLE page_links ENABLE ROW LEVEL SECURITY;
+
+-- Existing pages are compiled again the next time their owner opens the
+-- dashboard (RENDER_VERSION changed), which fills in their links
@@ -0,0 +1,29 @@
+-- Store the compiled form of each page next to its markdown
+-- /api/publish parses a document once and saves its metadata and rendered tree,
+-- so public pages, the dashboard and feeds don't have to parse markdown again
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS title TEXT DEFAULT NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS description TEXT DEFAULT NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS word_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS links JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS headings JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS excerpt TEXT DEFAULT NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS frontmatter JSONB DEFAULT NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS rendered_ast JSONB DEFAULT NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS render_version INTEGER DEFAULT NULL;
+
+COMMENT ON COLUMN pages.title IS 'Frontmatter title, or the first level-1 heading';
+COMMENT ON COLUMN pages.description IS 'Frontmatter description, or the excerpt';
+COMMENT ON COLUMN pages.media IS 'Images, audio and video referenced by the page: [{ type, url, alt? }]';
+COMMENT ON COLUMN pages.links IS 'URLs the page links to';
+COMMENT ON COLUMN pages.headings IS 'Outline of the page: [{ depth, text }]';
+COMMENT ON COLUMN pages.rendered_ast IS 'hast tree rendered from the markdown body';
+COMMENT ON COLUMN pages.render_version IS 'RENDER_VERSION of lib/markdown.ts that produced rendered_ast; NULL or older versions are re-rendered';
+
+-- Existing pages have no compiled form yet. They are compiled on the fly when
+-- viewed, and saved the next time their owner opens the dashboard
+
+-- Add index for finding pages by tag
+CREATE INDEX IF NOT EXISTS idx_pages_tags ON pages USING GIN (tags);
@@ -0,0 +1,32 @@
+-- Add page revision history
+-- Every create/update through /api/publish writes a row here so older versions
+-- of a page can be listed, diffed and restored from the editor
+
+CREATE TABLE IF NOT EXISTS page_revisions (
+  id SERIAL PRIMARY KEY,
+  page_id INTEGER NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  markdown TEXT NOT NULL,
+  restored_from_revision_id INTEGER REFERENCES page_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Revision numbers are sequential per page
+  CONSTRAINT unique_page_revision_number UNIQUE (page_id, revision_number)
+);
+
+-- Add indexes for listing a page's history and filtering by owner
+CREATE INDEX IF NOT EXISTS idx_page_revisions_page_id ON page_revisions(page_id, revision_number DESC);
+CREATE INDEX IF NOT EXISTS idx_page_revisions_user_id ON page_revisions(user_id);
+
+COMMENT ON COLUMN page_revisions.restored_from_revision_id IS 'Set when this revision was created by restoring an older one';
+
+-- Revisions hold the markdown of private, draft and password pages too. Only
+-- /api/revisions (service role) reads them, so there are no policies for the public key
+ALTER TABLE page_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Seed the history with the current content of every existing page
+INSERT INTO page_revisions (page_id, user_id, revision_number, markdown, created_at)
+SELECT p.id, p.user_id, 1, p.markdown, COALESCE(p.updated_at, p.created_at, NOW())
+FROM pages p
+WHERE NOT EXISTS (SELECT 1 FROM page_revisions r WHERE r.page_id = p.id);
@@ -0,0 +1,70 @@
+-- Add full-text search over pages
+-- Titles weigh the most, then headings, then the description, then the body.
+-- body_text is the plain text /api/publish extracts from the markdown; pages
+-- compiled before it existed are searched by their markdown until re-rendered
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS body_text TEXT DEFAULT NULL;
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(jsonb_path_query_array(headings, '$[*].text')::TEXT, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'C') ||
+  setweight(to_tsvector('english', COALESCE(body_text, markdown)), 'D')
+) STORED;
+
+COMMENT ON COLUMN pages.body_text IS 'Plain text of the markdown body, one block per paragraph';
+
+-- Add index for searching
+CREATE INDEX IF NOT EXISTS idx_pages_search_vector ON pages USING GIN (search_vector);
+
+-- Search one user's pages, best matches first. The query uses web search
+-- syntax ("quoted phrases", -excluded, or). Snippets mark matches with
+-- <mark>...</mark>; they are plain text otherwise and must be escaped
+CREATE OR REPLACE FUNCTION search_pages(
+  owner_id UUID,
+  search_query TEXT,
+  public_only BOOLEAN DEFAULT FALSE,
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id INTEGER,
+  slug TEXT,
+  title TEXT,
+  status TEXT,
+  publish_at TIMESTAMP WITH TIME ZONE,
+  unpublish_at TIMESTAMP WITH TIME ZONE,
+  visibility TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  snippet TEXT
+) AS $$
+  SELECT
+    p.id,
+    p.slug,
+    p.title,
+    p.status,
+    p.publish_at,
+    p.unpublish_at,
+    p.visibility,
+    p.updated_at,
+    ts_rank_cd(p.search_vector, query) AS rank,
+    ts_headline(
+      'english',
+      COALESCE(p.body_text, p.markdown),
+      query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM pages p, websearch_to_tsquery('english', search_query) query
+  WHERE p.user_id = owner_id
+    AND p.deleted_at IS NULL
+    AND p.search_vector @@ query
+    -- Public searches only see live public pages (the rules of lib/pageStatus.ts)
+    AND (NOT public_only OR (
+      p.visibility = 'public'
+      AND p.status IN ('published', 'scheduled')
+      AND (p.publish_at IS NULL OR p.publish_at <= NOW())
+      AND (p.unpublish_at IS NULL OR p.unpublish_at > NOW())
+    ))
+  ORDER BY rank DESC, p.updated_at DESC
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
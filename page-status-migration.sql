@@ -0,0 +1,29 @@
+-- Add draft / published / scheduled / unpublished states to pages
+-- Only pages that are currently live are served at their public URL
+
+ALTER TABLE pages
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published';
+
+ALTER TABLE pages
+ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+ALTER TABLE pages
+ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS valid_page_status;
+ALTER TABLE pages ADD CONSTRAINT valid_page_status
+  CHECK (status IN ('draft', 'published', 'scheduled', 'unpublished'));
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS valid_page_schedule;
+ALTER TABLE pages ADD CONSTRAINT valid_page_schedule
+  CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+COMMENT ON COLUMN pages.status IS 'draft, published, scheduled or unpublished';
+COMMENT ON COLUMN pages.publish_at IS 'When the page goes (or went) live';
+COMMENT ON COLUMN pages.unpublish_at IS 'Optional time after which the page is no longer served';
+
+-- Existing pages were live as soon as they were saved
+UPDATE pages SET publish_at = created_at WHERE publish_at IS NULL AND status = 'published';
+
+-- Add index for finding live and upcoming pages
+CREATE INDEX IF NOT EXISTS idx_pages_status_publish_at ON pages(status, publish_at);
@@ -0,0 +1,30 @@
+-- Add page tags
+-- One row per tag of a page, taken from the `tags` field of its frontmatter.
+-- /api/publish keeps them in sync, and they back the dashboard's tag filter and
+-- the public tag pages at /u/[username]/tags/[tag]
+
+CREATE TABLE IF NOT EXISTS page_tags (
+  page_id INTEGER NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (page_id, tag),
+  CONSTRAINT valid_tag CHECK (tag ~ '^[a-z0-9][a-z0-9_-]*$')
+);
+
+-- Add index for listing an author's pages with a tag
+CREATE INDEX IF NOT EXISTS idx_page_tags_user_tag ON page_tags(user_id, tag);
+
+COMMENT ON COLUMN page_tags.tag IS 'Lowercase tag, as normalized by the frontmatter schema';
+
+-- Tags are written by /api/publish and read by the API routes and pages, all
+-- with the service role; no policies for the public key
+ALTER TABLE page_tags ENABLE ROW LEVEL SECURITY;
+
+-- Tag the existing pages from the tags stored when they were compiled
+INSERT INTO page_tags (page_id, user_id, tag)
+SELECT id, user_id, UNNEST(tags)
+FROM pages
+WHERE user_id IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,7 @@
+-- Add a default theme per user, for pages that don't pick one with `theme:`
+-- in their frontmatter. The themes themselves are defined in lib/themes.ts
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS default_theme TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN profiles.default_theme IS 'Theme of pages without a theme in their frontmatter (NULL for the default theme)';
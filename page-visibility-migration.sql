@@ -0,0 +1,24 @@
+-- Add per-page visibility
+-- public: served and listed; unlisted: served but left out of listings, feeds and sitemaps;
+-- password: served after entering a password; private: only served to the owner
+-- page-access-migration.sql later moves password_hash out of pages, into page_passwords
+
+ALTER TABLE pages
+ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public';
+
+ALTER TABLE pages
+ADD COLUMN IF NOT EXISTS password_hash TEXT DEFAULT NULL;
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS valid_page_visibility;
+ALTER TABLE pages ADD CONSTRAINT valid_page_visibility
+  CHECK (visibility IN ('public', 'unlisted', 'password', 'private'));
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS password_pages_have_password;
+ALTER TABLE pages ADD CONSTRAINT password_pages_have_password
+  CHECK (visibility <> 'password' OR password_hash IS NOT NULL);
+
+COMMENT ON COLUMN pages.visibility IS 'public, unlisted, password or private';
+COMMENT ON COLUMN pages.password_hash IS 'scrypt hash of the page password (password visibility only)';
+
+-- Add index for building public listings
+CREATE INDEX IF NOT EXISTS idx_pages_visibility ON pages(visibility);
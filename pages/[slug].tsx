@@ -1,23 +1,32 @@
 import React from 'react';
-import { GetServerSideProps } from 'next';
-import { createClient } from '@supabase/supabase-js';
-import CustomMarkdown from '../components/CustomMarkdown';
-import matter from 'gray-matter';
-
-interface Frontmatter {
-  font?: 'serif' | 'sans' | 'mono';
-  background?: string;
-  [key: string]: unknown;
-}
-
-interface SlugPageProps {
-  content: string;
-  frontmatter: Frontmatter;
-  slug: string;
-  error?: string;
-}
+import { GetStaticPaths, GetStaticProps } from 'next';
+import PublishedPage from '../components/PublishedPage';
+import {
+  getAuthorStyle,
+  getLegacySlugFallback,
+  getUsernameForUser,
+  loadLegacyCandidates,
+  pickLegacyPage,
+  resolveSlugRedirect,
+  toStaticPageProps,
+  PublicPageProps
+} from '../lib/publicPages';
+import { withConnectedPages } from '../lib/embeds';
+import { getRevalidateSeconds, PAGE_REVALIDATE_SECONDS } from '../lib/revalidate';
+import { pagePath } from '../lib/urls';
+
+// Pages are generated on their first request and then served statically until
+// they change (see lib/revalidate.ts)
+export const getStaticPaths: GetStaticPaths = async () => {
+  return {
+    paths: [],
+    fallback: 'blocking'
+  };
+};
 
-export const getServerSideProps: GetServerSideProps<SlugPageProps> = async ({ params }) => {
+// Flat URLs from before pages were namespaced by username.
+// New links use /u/[username]/[slug]; see LEGACY_SLUG_FALLBACK for how these are handled.
+export const getStaticProps: GetStaticProps<PublicPageProps> = async ({ params }) => {
   try {
     const slug = params?.slug as string;
 
@@ -27,106 +36,89 @@ export const getServerSideProps: GetServerSideProps<SlugPageProps> = async ({ pa
       };
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-    
-    if (!supabaseUrl || !supabaseServiceKey) {
+    const fallback = getLegacySlugFallback();
+    if (fallback === 'off') {
       return {
-        props: {
-          content: '',
-          frontmatter: {},
-          slug,
-          error: 'Supabase configuration missing'
-        }
+        notFound: true,
+        revalidate: PAGE_REVALIDATE_SECONDS
       };
     }
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    // Drafts, unpublished pages and pages scheduled for later are not served,
+    // but their schedules decide when this URL has to be generated again
+    const candidates = await loadLegacyCandidates(slug);
+    const revalidate = getRevalidateSeconds(candidates);
 
-    // Fetch the page with the given slug
-    // Note: Pages are public for now, not filtered by user
-    const { data: page, error } = await supabase
-      .from('pages')
-      .select('*')
-      .eq('slug', slug)
-      .single();
+    const page = pickLegacyPage(candidates);
+    if (!page) {
+      // The page may have been renamed; namespaced URLs are unambiguous, so prefer them
+      const renamedPage = await resolveSlugRedirect(null, slug);
+      if (renamedPage) {
+        const username = await getUsernameForUser(renamedPage.user_id);
+        return {
+          redirect: {
+            destination: pagePath(renamedPage.slug, username),
+            statusCode: 301
+          },
+          revalidate
+        };
+      }
 
-    if (error) {
-      console.error('Error fetching page:', error);
       return {
-        notFound: true
+        notFound: true,
+        revalidate
       };
     }
 
-    if (!page) {
+    // Where the owner has a username, the namespaced URL is the canonical one
+    const username = await getUsernameForUser(page.user_id);
+    if (fallback === 'redirect' && username) {
       return {
-        notFound: true
+        redirect: {
+          destination: pagePath(page.slug, username),
+          permanent: true
+        },
+        revalidate
       };
     }
 
-    // Parse frontmatter from the markdown content
-    const { data: frontmatter, content } = matter(page.markdown);
+    // Gated pages get embedded pages and links along with their content, from /api/page-content
+    const authorStyle = await getAuthorStyle(page.user_id);
+    const staticProps = toStaticPageProps(page, username, authorStyle);
+    if (staticProps.gate !== 'none') {
+      return {
+        props: staticProps,
+        revalidate
+      };
+    }
 
+    // Embedded and linked pages going live or coming down change this page too
+    const { props, connectedPages } = await withConnectedPages(staticProps, page, username);
     return {
-      props: {
-        content,
-        frontmatter: frontmatter as Frontmatter,
-        slug
-      }
+      props,
+      revalidate: Math.min(revalidate, getRevalidateSeconds(connectedPages))
     };
 
   } catch (error) {
+    // Rethrow so Next keeps serving the last good copy instead of caching a 404
     console.error('Unexpected error:', error);
-    return {
-      notFound: true
-    };
+    throw error;
   }
 };
 
-export default function SlugPage({ content, frontmatter, error }: SlugPageProps) {
-  // Determine font class based on frontmatter
-  const getFontClass = () => {
-    switch (frontmatter.font) {
-      case 'serif':
-        return 'font-serif';
-      case 'mono':
-        return 'font-mono';
-      case 'sans':
-      default:
-        return 'font-sans';
-    }
-  };
-
-  // Determine background style
-  const getBackgroundStyle = () => {
-    if (frontmatter.background && /^#[0-9A-F]{6}$/i.test(frontmatter.background)) {
-      return { backgroundColor: frontmatter.background };
-    }
-    return {};
-  };
-
-  if (error) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <h1 className="text-2xl font-bold text-gray-900 mb-4">Error</h1>
-          <p className="text-gray-600">{error}</p>
-        </div>
-      </div>
-    );
-  }
-
+export default function SlugPage({ ast, frontmatter, pageId, gate, seo, author, links, defaultTheme, authorCss, pageCss }: PublicPageProps) {
   return (
-    <div 
-      className={`min-h-screen ${getFontClass()}`}
-      style={getBackgroundStyle()}
-    >
-      <div className="max-w-4xl mx-auto px-6 py-12">
-        <div className="prose prose-lg max-w-none">
-          <CustomMarkdown>{content}</CustomMarkdown>
-        </div>
-      </div>
-    </div>
+    <PublishedPage
+      ast={ast}
+      frontmatter={frontmatter}
+      pageId={pageId}
+      gate={gate}
+      seo={seo}
+      author={author}
+      links={links}
+      defaultTheme={defaultTheme}
+      authorCss={authorCss}
+      pageCss={pageCss}
+    />
   );
-} 
\ No newline at end of file
+}
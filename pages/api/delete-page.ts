@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getAuthenticatedUser, supabase } from '../../lib/auth';
+import { revalidatePages } from '../../lib/revalidate';
 
 export default async function handler(
   req: NextApiRequest,
@@ -21,12 +22,12 @@ export default async function handler(
       return res.status(400).json({ error: 'Page ID or slug is required' });
     }
 
-    // Get the page to be deleted
+    // Get the page to be deleted; users can only delete their own pages
     const pageQuery = pageId 
-      ? supabase.from('pages').select('id, slug, folder_id').eq('id', pageId as string)
-      : supabase.from('pages').select('id, slug, folder_id').eq('slug', slug as string);
+      ? supabase.from('pages').select('id, slug, folder_id, user_id').eq('id', pageId as string)
+      : supabase.from('pages').select('id, slug, folder_id, user_id').eq('slug', slug as string);
 
-    const { data: page, error: fetchError } = await pageQuery.single();
+    const { data: page, error: fetchError } = await pageQuery.eq('user_id', user.id).single();
 
     if (fetchError || !page) {
       return res.status(404).json({ error: 'Page not found' });
@@ -39,13 +40,16 @@ export default async function handler(
         deleted_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
-      .eq('id', page.id);
+      .eq('id', page.id)
+      .eq('user_id', user.id);
 
     if (deleteError) {
       console.error('Error deleting page:', deleteError);
       return res.status(500).json({ error: 'Failed to delete page' });
     }
 
+    await revalidatePages(res, user.id, [page.slug]);
+
     return res.status(200).json({ success: true });
 
   } catch (error) {
@@ -0,0 +1,80 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../lib/auth';
+import { getRequestOrigin, sendCacheable } from '../../lib/http';
+import { getProfileByUsername } from '../../lib/publicPages';
+import { buildFeed, FEED_CACHE_CONTROL, FEED_CONTENT_TYPES, isFeedFormat, renderFeed } from '../../lib/feeds';
+import { getSiteUrl } from '../../lib/seo';
+
+// RSS, Atom and JSON feeds of an author's public pages, served at
+// /u/[username]/feed.xml, /u/[username]/atom.xml and /u/[username]/feed.json
+// (see next.config.js). ?folder=ID limits a feed to one folder and
+// ?mode=excerpt leaves out the content of the pages
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { username, format = 'rss', folder, mode = 'full' } = req.query;
+
+    if (!username || typeof username !== 'string') {
+      return res.status(400).json({ error: 'Username is required' });
+    }
+
+    if (!isFeedFormat(format)) {
+      return res.status(400).json({ error: 'Format must be rss, atom or json' });
+    }
+
+    if (mode !== 'full' && mode !== 'excerpt') {
+      return res.status(400).json({ error: 'Mode must be full or excerpt' });
+    }
+
+    const profile = await getProfileByUsername(username);
+    if (!profile || !profile.username) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+
+    let feedFolder: { id: number; name: string } | null = null;
+    if (folder) {
+      const folderId = parseInt(folder as string, 10);
+      if (isNaN(folderId)) {
+        return res.status(400).json({ error: 'Invalid folder ID' });
+      }
+
+      const { data: folderRecord, error: folderError } = await supabase
+        .from('folders')
+        .select('id, name')
+        .eq('id', folderId)
+        .eq('user_id', profile.user_id)
+        .maybeSingle();
+
+      if (folderError) {
+        console.error('Error fetching folder:', folderError);
+        return res.status(500).json({ error: 'Failed to fetch folder' });
+      }
+
+      if (!folderRecord) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      feedFolder = folderRecord;
+    }
+
+    const feed = await buildFeed(profile.user_id, {
+      username: profile.username,
+      folder: feedFolder,
+      mode,
+      format,
+      siteUrl: getSiteUrl() || getRequestOrigin(req)
+    });
+
+    return sendCacheable(req, res, renderFeed(feed, format), FEED_CONTENT_TYPES[format], FEED_CACHE_CONTROL);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
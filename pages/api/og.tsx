@@ -0,0 +1,152 @@
+import React from 'react';
+import { ImageResponse } from 'next/og';
+import type { NextRequest } from 'next/server';
+import { supabase } from '../../lib/auth';
+import { isPageLive } from '../../lib/pageStatus';
+import { SITE_NAME } from '../../lib/seo';
+import { pagePath } from '../../lib/urls';
+
+// Images are generated at the edge; lib/publicPages.ts and lib/markdown.ts
+// can't be used here since they depend on Node APIs
+export const config = {
+  runtime: 'edge'
+};
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const MAX_DESCRIPTION_LENGTH = 160;
+
+// Card URLs carry a version of the page (see ogImagePath), so they can be cached for long
+const CACHE_CONTROL = 'public, max-age=86400, s-maxage=86400, stale-while-revalidate=604800';
+
+interface OgCard {
+  title: string;
+  description: string | null;
+  tags: string[];
+  path: string | null;
+  background: string;
+}
+
+const GENERIC_CARD: OgCard = {
+  title: SITE_NAME,
+  description: 'Your space to write. Just Markdown. Just yours.',
+  tags: [],
+  path: null,
+  background: '#ffffff'
+};
+
+// Helper function to load what the Open Graph card of a page shows. Pages that
+// aren't public get the generic card, so it gives nothing away about them
+async function loadCard(pageId: string): Promise<OgCard> {
+  const { data: page, error } = await supabase
+    .from('pages')
+    .select('slug, title, description, tags, frontmatter, user_id, status, publish_at, unpublish_at, visibility')
+    .eq('id', pageId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching page:', error);
+    return GENERIC_CARD;
+  }
+
+  if (!page || !isPageLive(page) || page.visibility === 'password' || page.visibility === 'private') {
+    return GENERIC_CARD;
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('username')
+    .eq('user_id', page.user_id)
+    .maybeSingle();
+
+  const description: string | null = page.description;
+  const background: unknown = page.frontmatter?.background;
+
+  return {
+    title: page.title || page.slug,
+    description: description && description.length > MAX_DESCRIPTION_LENGTH
+      ? `${description.slice(0, MAX_DESCRIPTION_LENGTH).trimEnd()}…`
+      : description,
+    tags: (page.tags || []).slice(0, 4),
+    path: pagePath(page.slug, profile?.username),
+    background: typeof background === 'string' && /^#[0-9a-f]{6}$/i.test(background) ? background : '#ffffff'
+  };
+}
+
+export default async function handler(req: NextRequest) {
+  if (req.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const pageId = req.nextUrl.searchParams.get('pageId');
+
+  let card = GENERIC_CARD;
+  try {
+    if (pageId && /^\d+$/.test(pageId)) {
+      card = await loadCard(pageId);
+    }
+  } catch (error) {
+    console.error('Unexpected error:', error);
+  }
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '72px 80px',
+          backgroundColor: card.background,
+          color: '#111827'
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ fontSize: card.title.length > 60 ? 56 : 72, fontWeight: 700, lineHeight: 1.1 }}>
+            {card.title}
+          </div>
+          {card.description && (
+            <div style={{ marginTop: 32, fontSize: 32, lineHeight: 1.4, color: '#4b5563' }}>
+              {card.description}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end' }}>
+          <div style={{ display: 'flex' }}>
+            {card.tags.map((tag) => (
+              <div
+                key={tag}
+                style={{
+                  marginRight: 12,
+                  padding: '6px 18px',
+                  borderRadius: 9999,
+                  backgroundColor: '#dbeafe',
+                  color: '#1d4ed8',
+                  fontSize: 24
+                }}
+              >
+                {`#${tag}`}
+              </div>
+            ))}
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
+            <div style={{ fontSize: 32, fontWeight: 700, color: '#2563eb' }}>{SITE_NAME}</div>
+            {card.path && <div style={{ fontSize: 24, color: '#6b7280' }}>{card.path}</div>}
+          </div>
+        </div>
+      </div>
+    ),
+    {
+      width: CARD_WIDTH,
+      height: CARD_HEIGHT,
+      headers: { 'Cache-Control': CACHE_CONTROL }
+    }
+  );
+}
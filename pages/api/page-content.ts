@@ -0,0 +1,58 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../lib/auth';
+import { PRIVATE_REVALIDATE, sendCacheableJson } from '../../lib/http';
+import { withConnectedPages } from '../../lib/embeds';
+import { getPageAccess } from '../../lib/pageAccess';
+import { isPageLive } from '../../lib/pageStatus';
+import { getUsernameForUser, toPublicPageProps } from '../../lib/publicPages';
+
+// Content of password-protected and private pages. Their statically generated
+// HTML is the same for everyone and holds no content, so the browser fetches it
+// here, where the unlock and session cookies can be checked
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { pageId } = req.query;
+
+    if (!pageId) {
+      return res.status(400).json({ error: 'Page ID is required' });
+    }
+
+    const { data: page, error: pageError } = await supabase
+      .from('pages')
+      .select('*')
+      .eq('id', pageId as string)
+      .is('deleted_at', null)
+      .single();
+
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    if (pageError || !page || !isPageLive(page)) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    const access = await getPageAccess(page, req.cookies);
+    if (access === 'denied') {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    if (access === 'password') {
+      return res.status(401).json({ error: 'Password required', locked: true });
+    }
+
+    const username = await getUsernameForUser(page.user_id);
+    const { props } = await withConnectedPages(toPublicPageProps(page, null), page, username);
+    const { ast, frontmatter, links, pageCss } = props;
+    return sendCacheableJson(req, res, { ast, frontmatter, links, pageCss }, PRIVATE_REVALIDATE);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getAuthenticatedUser, supabase } from '../../lib/auth';
+import { revalidatePages } from '../../lib/revalidate';
+import { PAGE_LIST_COLUMNS, rerenderStalePages } from '../../lib/renderedPages';
 
 export default async function handler(
   req: NextApiRequest,
@@ -17,7 +19,7 @@ export default async function handler(
         // Fetch all pages for the authenticated user
         const { data: pages, error: pagesError } = await supabase
           .from('pages')
-          .select('*')
+          .select(PAGE_LIST_COLUMNS)
           .eq('user_id', user.id)
           .is('deleted_at', null)
           .order('created_at', { ascending: false });
@@ -25,7 +27,7 @@ export default async function handler(
         // Fetch deleted pages for the authenticated user
         const { data: deletedPages, error: deletedError } = await supabase
           .from('pages')
-          .select('*')
+          .select(PAGE_LIST_COLUMNS)
           .eq('user_id', user.id)
           .not('deleted_at', 'is', null)
           .order('deleted_at', { ascending: false });
@@ -36,10 +38,113 @@ export default async function handler(
         }
 
         return res.status(200).json({ 
-          pages: pages || [],
+          pages: await rerenderStalePages(pages || []),
           deletedPages: deletedPages || []
         });
 
+      case 'PATCH':
+        // Rename a page, keeping a permanent redirect from its old slug
+        const { pageId, slug, newSlug } = req.body;
+
+        if (!pageId && !slug) {
+          return res.status(400).json({ error: 'Page ID or slug is required' });
+        }
+
+        if (!newSlug || typeof newSlug !== 'string') {
+          return res.status(400).json({ error: 'newSlug field is required and must be a string' });
+        }
+
+        if (!/^[a-zA-Z0-9_-]+$/.test(newSlug)) {
+          return res.status(400).json({ error: 'slug must contain only letters, numbers, hyphens, and underscores' });
+        }
+
+        const pageQuery = pageId
+          ? supabase.from('pages').select('id, slug').eq('id', pageId)
+          : supabase.from('pages').select('id, slug').eq('slug', slug);
+
+        const { data: page, error: pageError } = await pageQuery
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .single();
+
+        if (pageError || !page) {
+          return res.status(404).json({ error: 'Page not found' });
+        }
+
+        if (page.slug === newSlug) {
+          return res.status(400).json({ error: 'The new slug is the same as the current one' });
+        }
+
+        // Slugs are unique per user, including pages in the trash
+        const { data: conflictingPage, error: conflictError } = await supabase
+          .from('pages')
+          .select('id, deleted_at')
+          .eq('slug', newSlug)
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (conflictError) {
+          console.error('Error checking slug:', conflictError);
+          return res.status(500).json({ error: 'Failed to check slug' });
+        }
+
+        if (conflictingPage) {
+          return res.status(409).json({
+            error: conflictingPage.deleted_at
+              ? 'A page in the trash already uses this slug'
+              : 'A page with this slug already exists'
+          });
+        }
+
+        const { data: renamedPage, error: renameError } = await supabase
+          .from('pages')
+          .update({
+            slug: newSlug,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', page.id)
+          .select('updated_at')
+          .single();
+
+        if (renameError || !renamedPage) {
+          console.error('Error renaming page:', renameError);
+          return res.status(500).json({ error: 'Failed to rename page' });
+        }
+
+        // Point the old slug at the page (replacing any redirect it had before)
+        const { error: redirectError } = await supabase
+          .from('slug_redirects')
+          .upsert(
+            { user_id: user.id, old_slug: page.slug, page_id: page.id },
+            { onConflict: 'user_id,old_slug' }
+          );
+
+        if (redirectError) {
+          console.error('Error recording redirect:', redirectError);
+          return res.status(500).json({ error: 'Page renamed, but the redirect from the old slug could not be saved' });
+        }
+
+        // The new slug is a real page now, so it must not redirect anywhere
+        const { error: cleanupError } = await supabase
+          .from('slug_redirects')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('old_slug', newSlug);
+
+        if (cleanupError) {
+          console.error('Error removing stale redirect:', cleanupError);
+        }
+
+        // The old slug now redirects and the new one serves the page
+        await revalidatePages(res, user.id, [page.slug, newSlug]);
+
+        return res.status(200).json({
+          success: true,
+          slug: newSlug,
+          previousSlug: page.slug,
+          updatedAt: renamedPage.updated_at
+        });
+
       default:
         return res.status(405).json({ error: 'Method not allowed' });
     }
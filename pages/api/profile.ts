@@ -0,0 +1,168 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuthenticatedUser, supabase } from '../../lib/auth';
+import { getUsernameForUser } from '../../lib/publicPages';
+import { revalidatePages } from '../../lib/revalidate';
+import { isValidUsername } from '../../lib/urls';
+import { isPageTheme, MAX_CSS_LENGTH, PAGE_THEMES, PageTheme } from '../../lib/frontmatter';
+
+// Helper function to regenerate every page of a user, after a change to how all of them are served
+async function revalidateAllPages(res: NextApiResponse, userId: string, usernames: (string | null)[]) {
+  const { data: pages, error } = await supabase
+    .from('pages')
+    .select('slug')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (error) {
+    console.error('Error fetching pages to revalidate:', error);
+    return;
+  }
+
+  await revalidatePages(res, userId, (pages || []).map((page) => page.slug), usernames);
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Check authentication
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        // Fetch the authenticated user's profile (null until a username is chosen)
+        const { data: profile, error: fetchError } = await supabase
+          .from('profiles')
+          .select('user_id, username, default_theme, custom_css, created_at, updated_at')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (fetchError) {
+          console.error('Error fetching profile:', fetchError);
+          return res.status(500).json({ error: 'Failed to fetch profile' });
+        }
+
+        return res.status(200).json({ profile });
+      }
+
+      case 'PUT': {
+        // Choose or change the username used in public page URLs
+        const { username } = req.body;
+
+        if (!username || typeof username !== 'string') {
+          return res.status(400).json({ error: 'Username is required' });
+        }
+
+        const normalizedUsername = username.trim().toLowerCase();
+        if (!isValidUsername(normalizedUsername)) {
+          return res.status(400).json({
+            error: 'Username must be 1-32 characters of lowercase letters, numbers and hyphens, and cannot start or end with a hyphen'
+          });
+        }
+
+        const previousUsername = await getUsernameForUser(user.id);
+
+        // Check the username isn't taken by someone else
+        const { data: existingProfile, error: checkError } = await supabase
+          .from('profiles')
+          .select('user_id')
+          .eq('username', normalizedUsername)
+          .maybeSingle();
+
+        if (checkError) {
+          console.error('Error checking username:', checkError);
+          return res.status(500).json({ error: 'Failed to check username' });
+        }
+
+        if (existingProfile && existingProfile.user_id !== user.id) {
+          return res.status(409).json({ error: 'That username is already taken' });
+        }
+
+        const { data: profile, error: upsertError } = await supabase
+          .from('profiles')
+          .upsert({
+            user_id: user.id,
+            username: normalizedUsername,
+            updated_at: new Date().toISOString()
+          })
+          .select('user_id, username, default_theme, custom_css, created_at, updated_at')
+          .single();
+
+        if (upsertError) {
+          console.error('Error saving profile:', upsertError);
+          return res.status(500).json({ error: 'Failed to save profile' });
+        }
+
+        // Every page moves to a new URL, and the old URLs stop working
+        if (previousUsername !== normalizedUsername) {
+          await revalidateAllPages(res, user.id, [previousUsername, normalizedUsername]);
+        }
+
+        return res.status(200).json({ success: true, profile });
+      }
+
+      case 'PATCH': {
+        // Change how all pages look: the theme of pages that don't set one, and
+        // the stylesheet of every page. Fields left out stay as they are; null
+        // goes back to none
+        const { defaultTheme, customCss } = req.body;
+        const changes: { default_theme?: PageTheme | null; custom_css?: string | null } = {};
+
+        if (defaultTheme !== undefined) {
+          if (defaultTheme !== null && !isPageTheme(defaultTheme)) {
+            return res.status(400).json({ error: `Theme must be one of ${PAGE_THEMES.join(', ')}` });
+          }
+          changes.default_theme = defaultTheme;
+        }
+
+        if (customCss !== undefined) {
+          if (customCss !== null && typeof customCss !== 'string') {
+            return res.status(400).json({ error: 'Custom CSS must be a string' });
+          }
+          if (customCss && customCss.length > MAX_CSS_LENGTH) {
+            return res.status(400).json({ error: `Custom CSS must be at most ${MAX_CSS_LENGTH} characters` });
+          }
+          // Stored as written; it is sanitized whenever it is used
+          changes.custom_css = customCss?.trim() ? customCss : null;
+        }
+
+        if (Object.keys(changes).length === 0) {
+          return res.status(400).json({ error: 'Nothing to change' });
+        }
+
+        const { data: profile, error: updateError } = await supabase
+          .from('profiles')
+          .update({
+            ...changes,
+            updated_at: new Date().toISOString()
+          })
+          .eq('user_id', user.id)
+          .select('user_id, username, default_theme, custom_css, created_at, updated_at')
+          .maybeSingle();
+
+        if (updateError) {
+          console.error('Error saving profile:', updateError);
+          return res.status(500).json({ error: 'Failed to save profile' });
+        }
+
+        if (!profile) {
+          return res.status(400).json({ error: 'Choose a username first' });
+        }
+
+        await revalidateAllPages(res, user.id, [profile.username]);
+
+        return res.status(200).json({ success: true, profile });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
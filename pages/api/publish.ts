@@ -1,5 +1,15 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getAuthenticatedUser, supabase } from '../../lib/auth';
+import { recordRevision } from '../../lib/revisions';
+import { compilePage, toRenderedColumns } from '../../lib/markdown';
+import { getEffectiveStatus, isPageLive, isPageStatus } from '../../lib/pageStatus';
+import { revalidatePages } from '../../lib/revalidate';
+import { syncPageTags } from '../../lib/tags';
+import { syncPageLinks } from '../../lib/pageLinks';
+import { resolvePageVisibility, savePagePasswordHash } from '../../lib/pageAccess';
+import { isPageVisibility } from '../../lib/visibility';
+
+const MIN_PASSWORD_LENGTH = 4;
 
 export default async function handler(
   req: NextApiRequest,
@@ -16,7 +26,7 @@ export default async function handler(
   }
 
   try {
-    const { markdown, slug, folderId } = req.body;
+    const { markdown, slug, folderId, status = 'published', publishAt, unpublishAt, expectedUpdatedAt, visibility, password } = req.body;
 
     // Validate the request body
     if (!markdown || typeof markdown !== 'string') {
@@ -32,6 +42,53 @@ export default async function handler(
       return res.status(400).json({ error: 'slug must contain only letters, numbers, hyphens, and underscores' });
     }
 
+    // Parse the document once; its metadata and rendered tree are stored with it
+    const compiled = compilePage(markdown);
+    if (compiled.frontmatterErrors.length > 0) {
+      return res.status(422).json({
+        error: 'Invalid frontmatter',
+        fieldErrors: compiled.frontmatterErrors
+      });
+    }
+    const rendered = toRenderedColumns(compiled);
+
+    // Validate status and schedule
+    if (!isPageStatus(status)) {
+      return res.status(400).json({ error: 'status must be one of draft, published, scheduled, unpublished' });
+    }
+
+    if (publishAt != null && (typeof publishAt !== 'string' || isNaN(Date.parse(publishAt)))) {
+      return res.status(400).json({ error: 'publishAt must be an ISO timestamp' });
+    }
+
+    if (unpublishAt != null && (typeof unpublishAt !== 'string' || isNaN(Date.parse(unpublishAt)))) {
+      return res.status(400).json({ error: 'unpublishAt must be an ISO timestamp' });
+    }
+
+    if (publishAt && unpublishAt && Date.parse(unpublishAt) <= Date.parse(publishAt)) {
+      return res.status(400).json({ error: 'unpublishAt must be after publishAt' });
+    }
+
+    if (expectedUpdatedAt != null && (typeof expectedUpdatedAt !== 'string' || isNaN(Date.parse(expectedUpdatedAt)))) {
+      return res.status(400).json({ error: 'expectedUpdatedAt must be an ISO timestamp' });
+    }
+
+    if (visibility !== undefined && !isPageVisibility(visibility)) {
+      return res.status(400).json({ error: 'visibility must be one of public, unlisted, password, private' });
+    }
+
+    if (password != null && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    if (status === 'scheduled' && !publishAt) {
+      return res.status(400).json({ error: 'publishAt is required for scheduled pages' });
+    }
+
+    // Publishing with a future publish time schedules the page instead
+    const now = new Date();
+    const pageStatus = status === 'published' && publishAt && new Date(publishAt) > now ? 'scheduled' : status;
+
     // Validate folderId if provided (must belong to user)
     if (folderId && typeof folderId === 'number') {
       const { data: folder, error: folderError } = await supabase
@@ -49,31 +106,111 @@ export default async function handler(
     // Check if a page with this slug already exists for this user
     const { data: existingPage, error: fetchError } = await supabase
       .from('pages')
-      .select('id, slug')
+      .select('id, slug, status, publish_at, unpublish_at, visibility, updated_at')
       .eq('slug', slug)
       .eq('user_id', user.id)
       .single();
 
+    // Keep the original publish date when republishing a live page, otherwise go live now
+    let resolvedPublishAt: string | null = publishAt ? new Date(publishAt).toISOString() : null;
+    if (!resolvedPublishAt) {
+      if (pageStatus === 'published') {
+        resolvedPublishAt = existingPage && isPageLive(existingPage, now) && existingPage.publish_at
+          ? existingPage.publish_at
+          : now.toISOString();
+      } else {
+        resolvedPublishAt = existingPage?.publish_at ?? null;
+      }
+    }
+
+    const schedule = {
+      status: pageStatus,
+      publish_at: resolvedPublishAt,
+      unpublish_at: unpublishAt ? new Date(unpublishAt).toISOString() : null
+    };
+
+    const { visibility: pageVisibility, passwordHash, error: visibilityError } = await resolvePageVisibility({
+      frontmatter: compiled.frontmatter.visibility,
+      requested: visibility,
+      password,
+      existingPage
+    });
+    if (visibilityError) {
+      return res.status(400).json({ error: visibilityError });
+    }
+
+    const access = {
+      visibility: pageVisibility
+    };
+
+    // Clients that send expectedUpdatedAt opt into conflict detection: null means
+    // they think the page is new, otherwise it is the version they loaded
+    const checksVersion = 'expectedUpdatedAt' in req.body;
+
     if (existingPage && !fetchError) {
-      // Page exists - update it
-      const { error: updateError } = await supabase
+      if (checksVersion && (
+        expectedUpdatedAt == null ||
+        Date.parse(expectedUpdatedAt) !== Date.parse(existingPage.updated_at)
+      )) {
+        return sendConflict(res, existingPage.id);
+      }
+
+      // Page exists - update it, but only if nobody saved it since we read it
+      const { data: updatedPages, error: updateError } = await supabase
         .from('pages')
         .update({
           markdown,
+          ...rendered,
           folder_id: folderId || null,
+          ...schedule,
+          ...access,
           updated_at: new Date().toISOString()
         })
-        .eq('slug', slug);
+        .eq('id', existingPage.id)
+        .eq('updated_at', existingPage.updated_at)
+        .select('updated_at');
 
       if (updateError) {
         console.error('Error updating page:', updateError);
         return res.status(500).json({ error: 'Failed to update page' });
       }
 
+      if (!updatedPages || updatedPages.length === 0) {
+        return sendConflict(res, existingPage.id);
+      }
+
+      const { error: passwordError } = await savePagePasswordHash(existingPage.id, passwordHash);
+      if (passwordError) {
+        console.error('Error saving page password:', passwordError);
+        return res.status(500).json({ error: 'Failed to save page password' });
+      }
+
+      const { revision, error: revisionError } = await recordRevision(existingPage.id, user.id, markdown);
+      if (revisionError) {
+        // The page itself was saved, so don't fail the publish over its history
+        console.error('Error recording revision:', revisionError);
+      }
+
+      const { previousTags, error: tagsError } = await syncPageTags(existingPage.id, user.id, rendered.tags);
+      if (tagsError) {
+        console.error('Error saving page tags:', tagsError);
+      }
+
+      const { previousTargets, error: linksError } = await syncPageLinks(existingPage.id, user.id, rendered.wiki_links, rendered.embeds);
+      if (linksError) {
+        console.error('Error saving page links:', linksError);
+      }
+
+      await revalidatePages(res, user.id, [slug], undefined, previousTags, previousTargets);
+
       return res.status(200).json({ 
         success: true, 
         action: 'updated',
-        slug 
+        slug,
+        status: getEffectiveStatus(schedule, now),
+        visibility: pageVisibility,
+        revision: revision?.revision_number ?? null,
+        updatedAt: updatedPages[0].updated_at
       });
     }
 
@@ -84,28 +221,108 @@ export default async function handler(
     }
 
     // Page doesn't exist - create it
-    const { error: insertError } = await supabase
+    const { data: newPage, error: insertError } = await supabase
       .from('pages')
       .insert({
         slug,
         markdown,
+        ...rendered,
         folder_id: folderId || null,
+        ...schedule,
+        ...access,
         user_id: user.id
-      });
+      })
+      .select('id, updated_at')
+      .single();
+
+    // Another tab or teammate created the same page in the meantime
+    if (insertError?.code === '23505') {
+      const { data: createdPage } = await supabase
+        .from('pages')
+        .select('id')
+        .eq('slug', slug)
+        .eq('user_id', user.id)
+        .single();
+
+      if (createdPage) {
+        return sendConflict(res, createdPage.id);
+      }
+    }
 
-    if (insertError) {
+    if (insertError || !newPage) {
       console.error('Error creating page:', insertError);
       return res.status(500).json({ error: 'Failed to create page' });
     }
 
+    const { error: passwordError } = await savePagePasswordHash(newPage.id, passwordHash);
+    if (passwordError) {
+      console.error('Error saving page password:', passwordError);
+      return res.status(500).json({ error: 'Failed to save page password' });
+    }
+
+    const { revision, error: revisionError } = await recordRevision(newPage.id, user.id, markdown);
+    if (revisionError) {
+      console.error('Error recording revision:', revisionError);
+    }
+
+    const { error: tagsError } = await syncPageTags(newPage.id, user.id, rendered.tags);
+    if (tagsError) {
+      console.error('Error saving page tags:', tagsError);
+    }
+
+    const { error: linksError } = await syncPageLinks(newPage.id, user.id, rendered.wiki_links, rendered.embeds);
+    if (linksError) {
+      console.error('Error saving page links:', linksError);
+    }
+
+    // A renamed page may have left a redirect on this slug; the new page replaces it
+    const { error: redirectError } = await supabase
+      .from('slug_redirects')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('old_slug', slug);
+
+    if (redirectError) {
+      console.error('Error removing slug redirect:', redirectError);
+    }
+
+    await revalidatePages(res, user.id, [slug]);
+
     return res.status(201).json({ 
       success: true, 
       action: 'created',
-      slug 
+      slug,
+      status: getEffectiveStatus(schedule, now),
+      visibility: pageVisibility,
+      revision: revision?.revision_number ?? null,
+      updatedAt: newPage.updated_at
     });
 
   } catch (error) {
     console.error('Unexpected error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-} 
\ No newline at end of file
+}
+
+// Helper function to reject a stale write, sending back what is saved now so
+// the editor can show both versions
+async function sendConflict(res: NextApiResponse, pageId: number) {
+  const { data: current, error } = await supabase
+    .from('pages')
+    .select('markdown, updated_at')
+    .eq('id', pageId)
+    .single();
+
+  if (error || !current) {
+    console.error('Error fetching current page:', error);
+    return res.status(500).json({ error: 'Failed to check existing page' });
+  }
+
+  return res.status(409).json({
+    error: 'This page was changed since you loaded it',
+    current: {
+      markdown: current.markdown,
+      updatedAt: current.updated_at
+    }
+  });
+}
@@ -0,0 +1,198 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuthenticatedUser, supabase } from '../../lib/auth';
+import { recordRevision } from '../../lib/revisions';
+import { compilePage, toRenderedColumns } from '../../lib/markdown';
+import { revalidatePages } from '../../lib/revalidate';
+import { syncPageTags } from '../../lib/tags';
+import { syncPageLinks } from '../../lib/pageLinks';
+import { resolvePageVisibility, savePagePasswordHash } from '../../lib/pageAccess';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Check authentication
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const { pageId, slug, revisionId } = req.query;
+
+        // Fetch a single revision including its content
+        if (revisionId) {
+          const { data: revision, error: revisionError } = await supabase
+            .from('page_revisions')
+            .select('id, page_id, revision_number, markdown, restored_from_revision_id, created_at')
+            .eq('id', revisionId as string)
+            .eq('user_id', user.id)
+            .single();
+
+          if (revisionError || !revision) {
+            return res.status(404).json({ error: 'Revision not found' });
+          }
+
+          return res.status(200).json({ revision });
+        }
+
+        if (!pageId && !slug) {
+          return res.status(400).json({ error: 'Page ID, slug or revision ID is required' });
+        }
+
+        // Resolve the page so history is only listed for the owner
+        const pageQuery = pageId
+          ? supabase.from('pages').select('id, slug').eq('id', pageId as string)
+          : supabase.from('pages').select('id, slug').eq('slug', slug as string);
+
+        const { data: page, error: pageError } = await pageQuery.eq('user_id', user.id).single();
+
+        if (pageError || !page) {
+          return res.status(404).json({ error: 'Page not found' });
+        }
+
+        // List revisions newest first, without content to keep the payload small
+        const { data: revisions, error: listError } = await supabase
+          .from('page_revisions')
+          .select('id, revision_number, restored_from_revision_id, created_at')
+          .eq('page_id', page.id)
+          .order('revision_number', { ascending: false });
+
+        if (listError) {
+          console.error('Error fetching revisions:', listError);
+          return res.status(500).json({ error: 'Failed to fetch revisions' });
+        }
+
+        return res.status(200).json({ page, revisions: revisions || [] });
+      }
+
+      case 'POST': {
+        // Restore an old revision by republishing it as the newest one
+        const { revisionId, action, expectedUpdatedAt } = req.body;
+
+        if (action !== 'restore') {
+          return res.status(400).json({ error: 'Unsupported action' });
+        }
+
+        if (!revisionId || typeof revisionId !== 'number') {
+          return res.status(400).json({ error: 'Revision ID is required' });
+        }
+
+        const { data: revision, error: revisionError } = await supabase
+          .from('page_revisions')
+          .select('id, page_id, markdown')
+          .eq('id', revisionId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (revisionError || !revision) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+
+        // Old revisions may predate frontmatter validation; they are restored
+        // as they were, rendered without their invalid fields
+        const compiled = compilePage(revision.markdown);
+        const rendered = toRenderedColumns(compiled);
+
+        const { data: page, error: pageError } = await supabase
+          .from('pages')
+          .select('id, visibility, updated_at')
+          .eq('id', revision.page_id)
+          .eq('user_id', user.id)
+          .single();
+
+        if (pageError || !page) {
+          return res.status(404).json({ error: 'Page not found' });
+        }
+
+        // As when publishing, clients that send expectedUpdatedAt only restore
+        // over the version they loaded
+        const staleMessage = 'This page was changed since you loaded it. Reload it before restoring';
+        if ('expectedUpdatedAt' in req.body && (
+          expectedUpdatedAt == null ||
+          Date.parse(expectedUpdatedAt) !== Date.parse(page.updated_at)
+        )) {
+          return res.status(409).json({ error: staleMessage });
+        }
+
+        // The restored frontmatter may set the visibility, as it does when publishing
+        const { visibility, passwordHash, error: visibilityError } = await resolvePageVisibility({
+          frontmatter: compiled.frontmatter.visibility,
+          existingPage: page
+        });
+        if (visibilityError) {
+          return res.status(400).json({ error: visibilityError });
+        }
+
+        // Only if nobody saved the page since it was read
+        const { data: restoredPages, error: updateError } = await supabase
+          .from('pages')
+          .update({
+            markdown: revision.markdown,
+            ...rendered,
+            visibility,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', revision.page_id)
+          .eq('user_id', user.id)
+          .eq('updated_at', page.updated_at)
+          .select('slug, updated_at');
+
+        if (updateError) {
+          console.error('Error restoring revision:', updateError);
+          return res.status(500).json({ error: 'Failed to restore revision' });
+        }
+
+        const restoredPage = restoredPages?.[0];
+        if (!restoredPage) {
+          return res.status(409).json({ error: staleMessage });
+        }
+
+        const { error: passwordError } = await savePagePasswordHash(revision.page_id, passwordHash);
+        if (passwordError) {
+          console.error('Error saving page password:', passwordError);
+          return res.status(500).json({ error: 'Failed to save page password' });
+        }
+
+        const { revision: restored, error: recordError } = await recordRevision(
+          revision.page_id,
+          user.id,
+          revision.markdown,
+          revision.id
+        );
+
+        if (recordError) {
+          console.error('Error recording restored revision:', recordError);
+        }
+
+        const { previousTags, error: tagsError } = await syncPageTags(revision.page_id, user.id, rendered.tags);
+        if (tagsError) {
+          console.error('Error saving page tags:', tagsError);
+        }
+
+        const { previousTargets, error: linksError } = await syncPageLinks(revision.page_id, user.id, rendered.wiki_links, rendered.embeds);
+        if (linksError) {
+          console.error('Error saving page links:', linksError);
+        }
+
+        await revalidatePages(res, user.id, [restoredPage.slug], undefined, previousTags, previousTargets);
+
+        return res.status(200).json({
+          success: true,
+          markdown: revision.markdown,
+          revision: restored?.revision_number ?? null,
+          visibility,
+          updatedAt: restoredPage.updated_at
+        });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getRequestOrigin, sendCacheable } from '../../lib/http';
+import { getSiteUrl } from '../../lib/seo';
+import { renderRobots, SITEMAP_CACHE_CONTROL } from '../../lib/sitemap';
+
+// robots.txt, served at /robots.txt (see next.config.js)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const siteUrl = getSiteUrl() || getRequestOrigin(req);
+
+    return sendCacheable(req, res, renderRobots(siteUrl), 'text/plain; charset=utf-8', SITEMAP_CACHE_CONTROL);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
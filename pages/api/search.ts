@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuthenticatedUser } from '../../lib/auth';
+import { getProfileByUsername, getUsernameForUser } from '../../lib/publicPages';
+import { MAX_SEARCH_QUERY_LENGTH, searchPages } from '../../lib/search';
+
+// Public searches are the same for everyone, so the CDN may answer repeats briefly
+const PUBLIC_SEARCH_CACHE_CONTROL = 'public, max-age=0, s-maxage=60, stale-while-revalidate=300';
+
+// Full-text search. With ?username=, searches that author's public pages and
+// needs no sign-in; without it, searches all of the signed-in user's pages
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { q, username } = req.query;
+
+    if (!q || typeof q !== 'string' || !q.trim()) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+
+    if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+      return res.status(400).json({ error: `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` });
+    }
+
+    if (username) {
+      if (typeof username !== 'string') {
+        return res.status(400).json({ error: 'Invalid username' });
+      }
+
+      const profile = await getProfileByUsername(username);
+      if (!profile) {
+        return res.status(404).json({ error: 'Author not found' });
+      }
+
+      const results = await searchPages(profile.user_id, profile.username, q.trim(), true);
+      res.setHeader('Cache-Control', PUBLIC_SEARCH_CACHE_CONTROL);
+      return res.status(200).json({ results });
+    }
+
+    // Check authentication
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const ownUsername = await getUsernameForUser(user.id);
+    const results = await searchPages(user.id, ownUsername, q.trim(), false);
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ results });
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuthenticatedUser } from '../../lib/auth';
+import { serializeCookie, SESSION_COOKIE } from '../../lib/cookies';
+
+// Seconds until a Supabase access token (a JWT) expires
+function getTokenLifetime(token: string): number {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    return Math.max(0, Number(payload.exp) - Math.floor(Date.now() / 1000));
+  } catch {
+    return 0;
+  }
+}
+
+// Mirrors the signed-in user's access token into an HttpOnly cookie, so
+// server-rendered pages can recognise the owner of a private or
+// password-protected page without scripts on the page being able to read it
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const secure = process.env.NODE_ENV === 'production';
+
+  switch (req.method) {
+    case 'POST': {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const token = (req.headers.authorization || '').replace('Bearer ', '');
+      res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE, token, {
+        maxAge: getTokenLifetime(token),
+        httpOnly: true,
+        secure
+      }));
+      return res.status(200).json({ success: true });
+    }
+
+    case 'DELETE':
+      res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE, '', { maxAge: 0, httpOnly: true, secure }));
+      return res.status(200).json({ success: true });
+
+    default:
+      return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
@@ -0,0 +1,150 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuthenticatedUser, supabase } from '../../lib/auth';
+import { generateShareToken, isShareLinkActive, ShareLink, shareLinkPath } from '../../lib/shareLinks';
+
+// Shape returned to the editor; the raw token is only ever exposed as a signed URL
+function toShareLinkResponse(link: ShareLink) {
+  return {
+    id: link.id,
+    path: shareLinkPath(link),
+    expiresAt: link.expires_at,
+    maxViews: link.max_views,
+    viewCount: link.view_count,
+    revokedAt: link.revoked_at,
+    createdAt: link.created_at,
+    active: isShareLinkActive(link)
+  };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Check authentication
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const { pageId, slug } = req.query;
+
+        if (!pageId && !slug) {
+          return res.status(400).json({ error: 'Page ID or slug is required' });
+        }
+
+        // Resolve the page so links are only listed for the owner
+        const pageQuery = pageId
+          ? supabase.from('pages').select('id, slug').eq('id', pageId as string)
+          : supabase.from('pages').select('id, slug').eq('slug', slug as string);
+
+        const { data: page, error: pageError } = await pageQuery.eq('user_id', user.id).single();
+
+        if (pageError || !page) {
+          return res.status(404).json({ error: 'Page not found' });
+        }
+
+        const { data: links, error: listError } = await supabase
+          .from('share_links')
+          .select('*')
+          .eq('page_id', page.id)
+          .order('created_at', { ascending: false });
+
+        if (listError) {
+          console.error('Error fetching share links:', listError);
+          return res.status(500).json({ error: 'Failed to fetch share links' });
+        }
+
+        return res.status(200).json({ page, links: (links || []).map(toShareLinkResponse) });
+      }
+
+      case 'POST': {
+        const { pageId, expiresAt, maxViews } = req.body;
+
+        if (!pageId || typeof pageId !== 'number') {
+          return res.status(400).json({ error: 'Page ID is required' });
+        }
+
+        if (expiresAt != null && (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt)))) {
+          return res.status(400).json({ error: 'expiresAt must be an ISO timestamp' });
+        }
+
+        if (expiresAt && new Date(expiresAt) <= new Date()) {
+          return res.status(400).json({ error: 'expiresAt must be in the future' });
+        }
+
+        if (maxViews != null && (!Number.isInteger(maxViews) || maxViews < 1)) {
+          return res.status(400).json({ error: 'maxViews must be a positive whole number' });
+        }
+
+        const { data: page, error: pageError } = await supabase
+          .from('pages')
+          .select('id')
+          .eq('id', pageId)
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .single();
+
+        if (pageError || !page) {
+          return res.status(404).json({ error: 'Page not found' });
+        }
+
+        const { data: link, error: insertError } = await supabase
+          .from('share_links')
+          .insert({
+            page_id: page.id,
+            user_id: user.id,
+            token: generateShareToken(),
+            expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+            max_views: maxViews ?? null
+          })
+          .select('*')
+          .single();
+
+        if (insertError || !link) {
+          console.error('Error creating share link:', insertError);
+          return res.status(500).json({ error: 'Failed to create share link' });
+        }
+
+        return res.status(201).json({ link: toShareLinkResponse(link) });
+      }
+
+      case 'DELETE': {
+        // Revoke a link; it is kept so its view count stays visible in the editor
+        const { id } = req.body;
+
+        if (!id || typeof id !== 'number') {
+          return res.status(400).json({ error: 'Share link ID is required' });
+        }
+
+        const { data: link, error: revokeError } = await supabase
+          .from('share_links')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .is('revoked_at', null)
+          .select('*')
+          .maybeSingle();
+
+        if (revokeError) {
+          console.error('Error revoking share link:', revokeError);
+          return res.status(500).json({ error: 'Failed to revoke share link' });
+        }
+
+        if (!link) {
+          return res.status(404).json({ error: 'Share link not found' });
+        }
+
+        return res.status(200).json({ success: true, link: toShareLinkResponse(link) });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getRequestOrigin, sendCacheable } from '../../lib/http';
+import { getSiteUrl } from '../../lib/seo';
+import {
+  countSitemapChunks,
+  loadSitemapChunk,
+  renderSitemap,
+  renderSitemapIndex,
+  SITEMAP_CACHE_CONTROL
+} from '../../lib/sitemap';
+
+const XML_CONTENT_TYPE = 'application/xml; charset=utf-8';
+
+// Sitemap of public pages, served at /sitemap.xml (an index of chunks) and
+// /sitemaps/[n].xml (one chunk); see next.config.js
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { chunk } = req.query;
+    const siteUrl = getSiteUrl() || getRequestOrigin(req);
+
+    if (chunk === undefined) {
+      const chunkCount = await countSitemapChunks();
+      return sendCacheable(req, res, renderSitemapIndex(siteUrl, chunkCount), XML_CONTENT_TYPE, SITEMAP_CACHE_CONTROL);
+    }
+
+    if (typeof chunk !== 'string' || !/^\d+$/.test(chunk)) {
+      return res.status(400).json({ error: 'Invalid sitemap chunk' });
+    }
+
+    const entries = await loadSitemapChunk(parseInt(chunk, 10));
+    return sendCacheable(req, res, renderSitemap(siteUrl, entries), XML_CONTENT_TYPE, SITEMAP_CACHE_CONTROL);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
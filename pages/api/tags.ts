@@ -0,0 +1,28 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuthenticatedUser } from '../../lib/auth';
+import { getTagCounts } from '../../lib/tags';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Check authentication
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // List the tags used on the user's pages, with how many pages have each
+    const tags = await getTagCounts(user.id);
+    return res.status(200).json({ tags });
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+}
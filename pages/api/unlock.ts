@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../lib/auth';
+import { serializeCookie, unlockCookieName } from '../../lib/cookies';
+import { createUnlockCookieValue, getPagePasswordHash, UNLOCK_COOKIE_MAX_AGE } from '../../lib/pageAccess';
+import { isPageLive } from '../../lib/pageStatus';
+import { verifyPassword } from '../../lib/signing';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { pageId, password } = req.body;
+
+    if (!pageId || typeof pageId !== 'number') {
+      return res.status(400).json({ error: 'Page ID is required' });
+    }
+
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Password is required' });
+    }
+
+    const { data: page, error: pageError } = await supabase
+      .from('pages')
+      .select('id, user_id, visibility, status, publish_at, unpublish_at')
+      .eq('id', pageId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pageError || !page || page.visibility !== 'password' || !isPageLive(page)) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    const passwordHash = await getPagePasswordHash(page.id);
+    if (!passwordHash || !verifyPassword(password, passwordHash)) {
+      return res.status(401).json({ error: 'Incorrect password' });
+    }
+
+    res.setHeader('Set-Cookie', serializeCookie(unlockCookieName(page.id), createUnlockCookieValue(page.id, passwordHash), {
+      maxAge: UNLOCK_COOKIE_MAX_AGE,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production'
+    }));
+
+    return res.status(200).json({ success: true });
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -4,15 +4,30 @@ import { useRouter } from 'next/router';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../contexts/AuthContext';
 import ProtectedRoute from '../components/ProtectedRoute';
+import StatusBadge from '../components/StatusBadge';
+import SearchBox from '../components/SearchBox';
+import CustomCssDialog from '../components/CustomCssDialog';
+import { getEffectiveStatus, PageStatus } from '../lib/pageStatus';
+import { feedPath, pagePath, tagPath } from '../lib/urls';
+import { PageVisibility } from '../lib/visibility';
+import { PageTheme } from '../lib/frontmatter';
+import { THEMES } from '../lib/themes';
 
 interface PageData {
   id: number;
   slug: string;
   folder_id?: number | null;
   deleted_at?: string | null;
-  markdown?: string;
+  title?: string | null;
+  excerpt?: string | null;
+  word_count?: number;
+  tags?: string[];
   created_at?: string;
   updated_at?: string;
+  status?: PageStatus | null;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+  visibility?: PageVisibility | null;
 }
 
 interface FolderData {
@@ -22,9 +37,14 @@ interface FolderData {
   created_at: string;
 }
 
+interface TagData {
+  tag: string;
+  count: number;
+}
+
 interface SidebarItem {
   id: string;
-  type: 'folder' | 'page';
+  type: 'folder' | 'page' | 'tag';
   name: string;
   icon: string;
   folderId?: number | null;
@@ -38,11 +58,20 @@ export default function Dashboard() {
   const [pages, setPages] = useState<PageData[]>([]);
   const [deletedPages, setDeletedPages] = useState<PageData[]>([]);
   const [folders, setFolders] = useState<FolderData[]>([]);
+  const [tags, setTags] = useState<TagData[]>([]);
   const [selectedItem, setSelectedItem] = useState<string>('');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
   const [showNewFolderInput, setShowNewFolderInput] = useState(false);
   const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [username, setUsername] = useState<string | null>(null);
+  const [usernameInput, setUsernameInput] = useState('');
+  const [showUsernameInput, setShowUsernameInput] = useState(false);
+  const [isSavingUsername, setIsSavingUsername] = useState(false);
+  const [defaultTheme, setDefaultTheme] = useState<PageTheme | ''>('');
+  const [isSavingTheme, setIsSavingTheme] = useState(false);
+  const [customCss, setCustomCss] = useState('');
+  const [showCustomCss, setShowCustomCss] = useState(false);
   
 
   const loadData = useCallback(async () => {
@@ -76,16 +105,38 @@ export default function Dashboard() {
         },
       });
 
-      if (!pagesResponse.ok || !foldersResponse.ok) {
+      // Fetch the tags used on user's pages
+      const tagsResponse = await fetch('/api/tags', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      // Fetch user's profile (for the username in public URLs)
+      const profileResponse = await fetch('/api/profile', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!pagesResponse.ok || !foldersResponse.ok || !tagsResponse.ok || !profileResponse.ok) {
         throw new Error('Failed to fetch data');
       }
 
       const pagesData = await pagesResponse.json();
       const foldersData = await foldersResponse.json();
+      const tagsData = await tagsResponse.json();
+      const profileData = await profileResponse.json();
 
       setPages(pagesData.pages || []);
       setDeletedPages(pagesData.deletedPages || []);
       setFolders(foldersData.folders || []);
+      setTags(tagsData.tags || []);
+      setUsername(profileData.profile?.username ?? null);
+      setDefaultTheme(profileData.profile?.default_theme ?? '');
+      setCustomCss(profileData.profile?.custom_css ?? '');
     } catch (err) {
       console.error('Error loading data:', err);
     }
@@ -142,20 +193,77 @@ export default function Dashboard() {
     }
   };
 
-  // Helper function to truncate markdown content
-  const truncateContent = (markdown: string, maxLength: number = 200) => {
-    // Remove markdown syntax for preview
-    const plainText = markdown
-      .replace(/#{1,6}\s+/g, '') // Remove headers
-      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-      .replace(/\*(.*?)\*/g, '$1') // Remove italic
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links
-      .replace(/`([^`]+)`/g, '$1') // Remove inline code
-      .replace(/```[\s\S]*?```/g, '') // Remove code blocks
-      .replace(/\n+/g, ' ') // Replace newlines with spaces
-      .trim();
-
-    return plainText.length > maxLength ? plainText.substring(0, maxLength) + '...' : plainText;
+  const saveUsername = async () => {
+    if (!usernameInput.trim()) return;
+
+    setIsSavingUsername(true);
+    try {
+      const session = await supabase.auth.getSession();
+      const token = session.data.session?.access_token;
+
+      if (!token) {
+        alert('Authentication required');
+        return;
+      }
+
+      const response = await fetch('/api/profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ username: usernameInput.trim() })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setUsername(data.profile.username);
+        setShowUsernameInput(false);
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || 'Failed to save username');
+      }
+    } catch (error) {
+      console.error('Error saving username:', error);
+      alert('Failed to save username');
+    } finally {
+      setIsSavingUsername(false);
+    }
+  };
+
+  const saveDefaultTheme = async (theme: PageTheme | '') => {
+    setIsSavingTheme(true);
+    try {
+      const session = await supabase.auth.getSession();
+      const token = session.data.session?.access_token;
+
+      if (!token) {
+        alert('Authentication required');
+        return;
+      }
+
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ defaultTheme: theme || null })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setDefaultTheme(data.profile.default_theme ?? '');
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || 'Failed to save default theme');
+      }
+    } catch (error) {
+      console.error('Error saving default theme:', error);
+      alert('Failed to save default theme');
+    } finally {
+      setIsSavingTheme(false);
+    }
   };
 
 
@@ -216,6 +324,18 @@ export default function Dashboard() {
       });
     });
 
+    // Tags, for finding pages across folders
+    tags.forEach(({ tag, count }) => {
+      items.push({
+        id: `tag-${tag}`,
+        type: 'tag',
+        name: `#${tag}`,
+        icon: '🏷️',
+        pageCount: count,
+        level: 0
+      });
+    });
+
     // Add trash folder if needed
     if (deletedPages.length > 0) {
       items.push({
@@ -229,7 +349,7 @@ export default function Dashboard() {
     }
 
     return items;
-  }, [pages, folders, deletedPages]);
+  }, [pages, folders, tags, deletedPages]);
 
   // Get displayed pages based on selection
   const getDisplayedPages = () => {
@@ -242,6 +362,9 @@ export default function Dashboard() {
       const pageId = parseInt(selectedItem.replace('page-', ''));
       const page = pages.find(p => p.id === pageId);
       return page ? [page] : [];
+    } else if (selectedItem.startsWith('tag-')) {
+      const tag = selectedItem.replace('tag-', '');
+      return pages.filter(page => page.tags?.includes(tag));
     }
     // Default to all pages if no selection
     return pages;
@@ -327,6 +450,7 @@ export default function Dashboard() {
                 >
                   Add Folder
                 </button>
+                <SearchBox placeholder="Search your pages" />
               </div>
             )}
           </div>
@@ -418,6 +542,89 @@ export default function Dashboard() {
           {/* Sidebar Footer */}
           {!sidebarCollapsed && (
             <div className="p-4 border-t border-gray-200 space-y-2">
+              {showUsernameInput ? (
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={usernameInput}
+                    onChange={(e) => setUsernameInput(e.target.value)}
+                    placeholder="username"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveUsername();
+                      if (e.key === 'Escape') setShowUsernameInput(false);
+                    }}
+                    autoFocus
+                  />
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={saveUsername}
+                      disabled={isSavingUsername || !usernameInput.trim()}
+                      className="flex-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {isSavingUsername ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                      onClick={() => setShowUsernameInput(false)}
+                      className="px-3 py-1.5 bg-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-400 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    setUsernameInput(username || '');
+                    setShowUsernameInput(true);
+                  }}
+                  className="text-sm text-gray-600 hover:text-gray-900"
+                  title="Your pages are published under /u/[username]"
+                >
+                  {username ? <span className="font-mono">@{username}</span> : 'Choose a username'}
+                </button>
+              )}
+              {username && !showUsernameInput && (
+                <a
+                  href={feedPath(username, 'rss')}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-xs text-orange-600 hover:text-orange-700"
+                  title="RSS feed of your public pages (also atom.xml and feed.json)"
+                >
+                  RSS
+                </a>
+              )}
+              {username && !showUsernameInput && (
+                <label
+                  className="flex items-center justify-between text-xs text-gray-500"
+                  title="Theme of your pages that don't set theme: in their frontmatter"
+                >
+                  <span>Page theme</span>
+                  <select
+                    value={defaultTheme}
+                    onChange={(e) => saveDefaultTheme(e.target.value as PageTheme | '')}
+                    disabled={isSavingTheme}
+                    className="ml-2 px-1 py-0.5 border border-gray-300 rounded text-xs bg-white disabled:opacity-50"
+                  >
+                    <option value="">Default</option>
+                    {Object.values(THEMES)
+                      .filter((theme) => theme.name !== 'default')
+                      .map((theme) => (
+                        <option key={theme.name} value={theme.name}>{theme.label}</option>
+                      ))}
+                  </select>
+                </label>
+              )}
+              {username && !showUsernameInput && (
+                <button
+                  onClick={() => setShowCustomCss(true)}
+                  className="block text-xs text-gray-500 hover:text-gray-700"
+                  title="CSS added to all your pages"
+                >
+                  {customCss ? 'Edit custom CSS' : 'Add custom CSS'}
+                </button>
+              )}
               <div className="flex items-center justify-between text-sm text-gray-500">
                 <span className="truncate">{user?.email}</span>
                 <button
@@ -444,10 +651,19 @@ export default function Dashboard() {
                     {selectedItem === 'trash' ? 'Trash' : 
                      selectedItem.startsWith('folder-') ? 
                        folders.find(f => f.id === parseInt(selectedItem.replace('folder-', '')))?.name || 'Folder' :
+                     selectedItem.startsWith('tag-') ? `#${selectedItem.replace('tag-', '')}` :
                      'Dashboard'}
                   </h2>
                   <p className="text-gray-600 mt-1">
                     {displayedPages.length} {displayedPages.length === 1 ? 'page' : 'pages'}
+                    {selectedItem.startsWith('tag-') && username && (
+                      <Link
+                        href={tagPath(username, selectedItem.replace('tag-', ''))}
+                        className="ml-3 text-sm text-blue-600 hover:text-blue-500"
+                      >
+                        View public tag page
+                      </Link>
+                    )}
                   </p>
                 </div>
               </div>
@@ -494,9 +710,17 @@ export default function Dashboard() {
                               <h1 className="text-2xl font-bold text-gray-900 truncate">
                                 {page.slug}
                               </h1>
+                              {selectedItem !== 'trash' && (
+                                <StatusBadge status={getEffectiveStatus(page)} publishAt={page.publish_at} />
+                              )}
+                              {page.visibility && page.visibility !== 'public' && (
+                                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700 capitalize">
+                                  {page.visibility === 'password' ? '🔒 Password' : page.visibility}
+                                </span>
+                              )}
                             </div>
                             <p className="text-sm text-gray-500 mb-4">
-                              <span className="font-mono text-blue-600">/{page.slug}</span>
+                              <span className="font-mono text-blue-600">{pagePath(page.slug, username)}</span>
                             </p>
                             
                             <div className="flex items-center space-x-6 text-sm text-gray-500">
@@ -519,7 +743,7 @@ export default function Dashboard() {
                           
                           <div className="flex items-center space-x-3 ml-4">
                             <Link 
-                              href={`/${page.slug}`}
+                              href={pagePath(page.slug, username)}
                               className="px-4 py-2 bg-blue-100 text-blue-700 text-sm font-medium rounded-lg hover:bg-blue-200 transition-colors"
                             >
                               View Page
@@ -536,9 +760,22 @@ export default function Dashboard() {
 
                       <div className="p-6">
                         <div className="prose prose-sm max-w-none">
-                          {page.markdown && page.markdown.trim() ? (
+                          {page.word_count ? (
                             <div className="text-gray-600 leading-relaxed">
-                              {truncateContent(page.markdown, 300)}
+                              {page.title && <div className="font-semibold text-gray-900 mb-1">{page.title}</div>}
+                              {page.excerpt}
+                              <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                                <span>{page.word_count} {page.word_count === 1 ? 'word' : 'words'}</span>
+                                {page.tags?.map((tag) => (
+                                  <button
+                                    key={tag}
+                                    onClick={() => setSelectedItem(`tag-${tag}`)}
+                                    className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                              </div>
                             </div>
                           ) : (
                             <div className="text-gray-500 italic text-center py-8">
@@ -555,6 +792,14 @@ export default function Dashboard() {
           </div>
         </div>
       </div>
+
+      {showCustomCss && (
+        <CustomCssDialog
+          initialCss={customCss}
+          onSaved={setCustomCss}
+          onClose={() => setShowCustomCss(false)}
+        />
+      )}
     </ProtectedRoute>
   );
 } 
\ No newline at end of file
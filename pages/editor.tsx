@@ -1,15 +1,49 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
 import { useAuth } from '../contexts/AuthContext';
 import ProtectedRoute from '../components/ProtectedRoute';
-import CustomMarkdown from '../components/CustomMarkdown';
+import MarkdownPreview from '../components/MarkdownPreview';
+import RevisionHistory from '../components/RevisionHistory';
+import SharePanel from '../components/SharePanel';
+import StatusBadge from '../components/StatusBadge';
+import ConflictDialog from '../components/ConflictDialog';
+import FrontmatterErrors from '../components/FrontmatterErrors';
+import StrippedContentNotice from '../components/StrippedContentNotice';
+import ThemedPage from '../components/ThemedPage';
+import { FrontmatterFieldError, getFieldLine, PageTheme, parseFrontmatter } from '../lib/frontmatter';
+import { getEffectiveStatus, PageStatus } from '../lib/pageStatus';
+import { PAGE_VISIBILITIES, PageVisibility } from '../lib/visibility';
+import { pagePath } from '../lib/urls';
+import type { StrippedContent } from '../lib/html';
+import { getTheme, ThemeMode, THEMES } from '../lib/themes';
+import { sanitizeCss } from '../lib/customCss';
 import { createClient } from '@supabase/supabase-js';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabase = createClient(supabaseUrl, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
 
+// Convert an ISO timestamp to the value format of a datetime-local input
+function toLocalInputValue(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+const VISIBILITY_LABELS: Record<PageVisibility, string> = {
+  public: 'Public',
+  unlisted: 'Unlisted',
+  password: 'Password',
+  private: 'Private'
+};
+
+interface PublishConflict {
+  markdown: string;
+  updatedAt: string;
+  targetStatus: PageStatus;
+}
+
 interface SlugSuggestion {
   slug: string;
   created_at: string;
@@ -29,8 +63,34 @@ export default function Editor() {
   const [isLoadingContent, setIsLoadingContent] = useState(false);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
   const [pageExists, setPageExists] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [pageStatus, setPageStatus] = useState<PageStatus | null>(null);
+  const [publishAt, setPublishAt] = useState('');
+  const [unpublishAt, setUnpublishAt] = useState('');
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [username, setUsername] = useState<string | null>(null);
+  // Slugs of the user's pages, so [[slug]] links in the preview can tell which exist
+  const [pageSlugs, setPageSlugs] = useState<string[]>([]);
+  const [visibility, setVisibility] = useState<PageVisibility>('public');
+  const [pagePassword, setPagePassword] = useState('');
+  const [hasPassword, setHasPassword] = useState(false);
+  const [frontmatterErrors, setFrontmatterErrors] = useState<FrontmatterFieldError[]>([]);
+  // Raw HTML the preview's sanitizer took out, on pages with `html: true`
+  const [strippedHtml, setStrippedHtml] = useState<StrippedContent[]>([]);
+  // Theme the preview is shown in: '' for the page's own (or the user's default)
+  const [defaultTheme, setDefaultTheme] = useState<PageTheme | null>(null);
+  // The user's stylesheet for all their pages, sanitized
+  const [authorCss, setAuthorCss] = useState('');
+  const [previewTheme, setPreviewTheme] = useState<PageTheme | ''>('');
+  const [previewMode, setPreviewMode] = useState<ThemeMode>('system');
+  // Version of the page the editor content is based on, sent with every publish
+  // so the server can reject the write if someone else saved in the meantime
+  const [loadedUpdatedAt, setLoadedUpdatedAt] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<PublishConflict | null>(null);
 
   const mediaInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const slugInputRef = useRef<HTMLInputElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
 
@@ -105,7 +165,7 @@ export default function Editor() {
 
       const { data, error } = await supabase
         .from('pages')
-        .select('markdown')
+        .select('markdown, status, publish_at, unpublish_at, visibility, updated_at')
         .eq('slug', selectedSlug)
         .eq('user_id', currentUser.id)
         .is('deleted_at', null) // Only load non-deleted pages
@@ -120,6 +180,14 @@ export default function Editor() {
       if (data) {
         setMarkdown(data.markdown);
         setPageExists(true);
+        setLoadedUpdatedAt(data.updated_at);
+        setPageStatus(getEffectiveStatus(data));
+        // Only prefill the schedule while it is still upcoming
+        setPublishAt(data.publish_at && new Date(data.publish_at) > new Date() ? toLocalInputValue(data.publish_at) : '');
+        setUnpublishAt(toLocalInputValue(data.unpublish_at));
+        setVisibility(data.visibility || 'public');
+        setHasPassword(data.visibility === 'password');
+        setPagePassword('');
       }
     } catch (error) {
       console.error('Error loading content:', error);
@@ -138,6 +206,12 @@ export default function Editor() {
     // Reset page existence when manually changing slug
     if (value !== slug) {
       setPageExists(false);
+      setPageStatus(null);
+      setLoadedUpdatedAt(null);
+      setVisibility('public');
+      setHasPassword(false);
+      setPagePassword('');
+      setFrontmatterErrors([]);
     }
   };
 
@@ -192,6 +266,76 @@ export default function Editor() {
     }
   }, [router.isReady, router.query.slug, loadContentForSlug]);
 
+  // Load the username used to build public page URLs
+  useEffect(() => {
+    if (!user) return;
+
+    const loadProfile = async () => {
+      try {
+        const session = await supabase.auth.getSession();
+        const response = await fetch('/api/profile', {
+          headers: {
+            'Authorization': `Bearer ${session.data.session?.access_token}`,
+          },
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setUsername(data.profile?.username ?? null);
+          setDefaultTheme(data.profile?.default_theme ?? null);
+          setAuthorCss(sanitizeCss(data.profile?.custom_css).css);
+        }
+      } catch (error) {
+        console.error('Error loading profile:', error);
+      }
+    };
+
+    loadProfile();
+  }, [user]);
+
+  // Load the slugs of the user's pages for [[slug]] links in the preview
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPageSlugs = async () => {
+      const { data, error } = await supabase
+        .from('pages')
+        .select('slug')
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      if (error) {
+        console.error('Error loading page slugs:', error);
+        return;
+      }
+
+      setPageSlugs((data || []).map((page) => page.slug));
+    };
+
+    loadPageSlugs();
+  }, [user]);
+
+  // Existing pages open at their public URL; missing ones open here to be created
+  const wikiLinks = useMemo(() => {
+    const targets: Record<string, string> = {};
+    for (const pageSlug of pageSlugs) {
+      targets[pageSlug] = pagePath(pageSlug, username);
+    }
+    return { targets, createHref: (target: string) => `/editor?slug=${target}` };
+  }, [pageSlugs, username]);
+
+  const previewFrontmatter = useMemo(() => parseFrontmatter(markdown).frontmatter, [markdown]);
+  const theme = getTheme(previewTheme || previewFrontmatter.theme, defaultTheme);
+
+  // The page's `css`, with what the sanitizer takes out at the lines it is on:
+  // after the css: line for a block (css: |), or on it when written inline
+  const pageCss = useMemo(() => {
+    const fieldLine = getFieldLine(markdown, 'css');
+    if (fieldLine === null) return sanitizeCss(previewFrontmatter.css);
+
+    const isBlock = /^css\s*:\s*[|>]/.test(markdown.split(/\r?\n/)[fieldLine - 1]);
+    return sanitizeCss(previewFrontmatter.css, isBlock ? fieldLine : fieldLine - 1);
+  }, [markdown, previewFrontmatter]);
+
   // Close suggestions when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -222,7 +366,26 @@ export default function Editor() {
     };
   }
 
-  const handlePublish = async () => {
+  // Select a line of the document in the textarea and scroll it into view
+  const selectLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const lines = markdown.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    const end = start + (lines[line - 1]?.length ?? 0);
+
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+  };
+
+  // Save the page with the given status (draft, published or unpublished)
+  const savePage = async (
+    targetStatus: PageStatus,
+    expectedUpdatedAt: string | null = loadedUpdatedAt
+  ) => {
     if (!markdown.trim()) {
       alert('Please enter some content before publishing.');
       return;
@@ -244,6 +407,11 @@ export default function Editor() {
       return;
     }
 
+    if (visibility === 'password' && !hasPassword && !pagePassword) {
+      alert('Please enter a password for this page.');
+      return;
+    }
+
     setIsPublishing(true);
     
     try {
@@ -254,12 +422,48 @@ export default function Editor() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.data.session?.access_token}`,
         },
-        body: JSON.stringify({ markdown: markdown, slug: slug }),
+        body: JSON.stringify({
+          markdown: markdown,
+          slug: slug,
+          expectedUpdatedAt: expectedUpdatedAt,
+          status: targetStatus,
+          publishAt: publishAt ? new Date(publishAt).toISOString() : null,
+          unpublishAt: unpublishAt ? new Date(unpublishAt).toISOString() : null,
+          visibility: visibility,
+          password: visibility === 'password' && pagePassword ? pagePassword : null,
+        }),
       });
 
       if (response.ok) {
-        alert('Content published successfully!');
+        const data = await response.json();
+        const messages: Record<PageStatus, string> = {
+          draft: 'Draft saved. It is not visible to readers yet.',
+          published: 'Content published successfully!',
+          scheduled: `Page scheduled to go live ${new Date(publishAt).toLocaleString()}.`,
+          unpublished: 'Page unpublished. It is no longer visible to readers.'
+        };
+        alert(messages[data.status as PageStatus] || messages.published);
         setPageExists(true); // Page now exists in database
+        setPageSlugs((slugs) => (slugs.includes(data.slug) ? slugs : [...slugs, data.slug]));
+        setPageStatus(data.status);
+        setLoadedUpdatedAt(data.updatedAt);
+        // The frontmatter may have overridden the visibility chosen here
+        setVisibility(data.visibility);
+        setHasPassword(data.visibility === 'password');
+        setPagePassword('');
+        setFrontmatterErrors([]);
+      } else if (response.status === 422) {
+        // Show each invalid frontmatter field next to its line
+        const errorData = await response.json();
+        setFrontmatterErrors(errorData.fieldErrors || []);
+      } else if (response.status === 409) {
+        // Someone else saved this page since it was loaded
+        const errorData = await response.json();
+        setConflict({
+          markdown: errorData.current.markdown,
+          updatedAt: errorData.current.updatedAt,
+          targetStatus
+        });
       } else {
         const errorData = await response.json();
         alert(`Failed to publish content: ${errorData.error || 'Please try again.'}`);
@@ -272,6 +476,72 @@ export default function Editor() {
     }
   };
 
+  // Conflict resolution: publish our version over theirs
+  const handleConflictOverwrite = () => {
+    if (!conflict) return;
+    setConflict(null);
+    savePage(conflict.targetStatus, conflict.updatedAt);
+  };
+
+  // Conflict resolution: throw away our edits and continue from the saved version
+  const handleConflictDiscard = () => {
+    if (!conflict) return;
+    setMarkdown(conflict.markdown);
+    setLoadedUpdatedAt(conflict.updatedAt);
+    setPageExists(true);
+    setConflict(null);
+  };
+
+  // Conflict resolution: continue editing the merged text, based on the saved version
+  const handleConflictMerge = (mergedMarkdown: string) => {
+    if (!conflict) return;
+    setMarkdown(mergedMarkdown);
+    setLoadedUpdatedAt(conflict.updatedAt);
+    setPageExists(true);
+    setConflict(null);
+  };
+
+  const handlePublish = () => savePage('published');
+  const handleSaveDraft = () => savePage('draft');
+  const handleUnpublish = () => savePage('unpublished');
+
+  const handleRename = async () => {
+    const newSlug = prompt('New slug for this page. Links to the old slug will redirect to the new one.', slug);
+    if (!newSlug || newSlug.trim() === slug) {
+      return;
+    }
+
+    if (!/^[a-zA-Z0-9_-]+$/.test(newSlug.trim())) {
+      alert('Slug must contain only letters, numbers, hyphens, and underscores.');
+      return;
+    }
+
+    try {
+      const session = await supabase.auth.getSession();
+      const response = await fetch('/api/pages', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.data.session?.access_token}`,
+        },
+        body: JSON.stringify({ slug: slug, newSlug: newSlug.trim() }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSlug(data.slug);
+        setLoadedUpdatedAt(data.updatedAt);
+        alert(`Page renamed. /${data.previousSlug} now redirects to /${data.slug}.`);
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to rename page: ${errorData.error || 'Please try again.'}`);
+      }
+    } catch (error) {
+      console.error('Error renaming page:', error);
+      alert('An error occurred while renaming. Please try again.');
+    }
+  };
+
   const handleDelete = async () => {
     if (!slug.trim()) {
       alert('No page to delete.');
@@ -526,6 +796,30 @@ export default function Editor() {
       <div className="max-w-7xl mx-auto">
         {/* Action Buttons - Top Right */}
         <div className="absolute top-6 right-6 z-10 flex space-x-2">
+          {pageExists && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 focus:ring-2 focus:ring-gray-300 transition-all duration-200 shadow-sm text-sm"
+            >
+              History
+            </button>
+          )}
+          {pageExists && (
+            <button
+              onClick={() => setShowShare(true)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 focus:ring-2 focus:ring-gray-300 transition-all duration-200 shadow-sm text-sm"
+            >
+              Share
+            </button>
+          )}
+          {pageExists && (
+            <button
+              onClick={handleRename}
+              className="px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 focus:ring-2 focus:ring-gray-300 transition-all duration-200 shadow-sm text-sm"
+            >
+              Rename
+            </button>
+          )}
           {pageExists && (
             <button
               onClick={handleDelete}
@@ -534,12 +828,28 @@ export default function Editor() {
               Delete
             </button>
           )}
+          {pageStatus === 'published' && (
+            <button
+              onClick={handleUnpublish}
+              disabled={isPublishing}
+              className="px-4 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 focus:ring-2 focus:ring-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm text-sm"
+            >
+              Unpublish
+            </button>
+          )}
+          <button
+            onClick={handleSaveDraft}
+            disabled={isPublishing || !markdown.trim() || !slug.trim()}
+            className="px-4 py-2 bg-white text-gray-700 font-medium rounded-lg border border-gray-300 hover:bg-gray-50 focus:ring-2 focus:ring-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm text-sm"
+          >
+            Save draft
+          </button>
           <button
             onClick={handlePublish}
             disabled={isPublishing || !markdown.trim() || !slug.trim()}
             className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm text-sm"
           >
-            {isPublishing ? 'Publishing...' : 'Publish'}
+            {isPublishing ? 'Saving...' : publishAt && new Date(publishAt) > new Date() ? 'Schedule' : 'Publish'}
           </button>
         </div>
 
@@ -565,7 +875,7 @@ export default function Editor() {
             Slug
           </label>
           <div className="flex items-center relative">
-            <span className="text-gray-500 mr-2">/</span>
+            <span className="text-gray-500 mr-2 font-mono text-sm">{username ? `/u/${username}/` : '/'}</span>
             <input
               ref={slugInputRef}
               id="slug"
@@ -584,9 +894,88 @@ export default function Editor() {
               </div>
             )}
           </div>
-          <p className="text-xs text-gray-500 mt-1">
-            Use letters, numbers, hyphens, and underscores. This will be your page URL.
-          </p>
+          <div className="flex items-center justify-between mt-1">
+            <p className="text-xs text-gray-500">
+              Use letters, numbers, hyphens, and underscores. This will be your page URL.
+            </p>
+            <div className="flex items-center space-x-3">
+              {pageStatus && <StatusBadge status={pageStatus} publishAt={publishAt ? new Date(publishAt).toISOString() : null} />}
+              <select
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as PageVisibility)}
+                title="Who can see this page"
+                className="text-xs border border-gray-300 rounded-md py-1 pl-2 pr-6 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {PAGE_VISIBILITIES.map((option) => (
+                  <option key={option} value={option}>
+                    {VISIBILITY_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowSchedule(!showSchedule)}
+                className="text-xs text-blue-600 hover:text-blue-500"
+              >
+                {showSchedule ? 'Hide schedule' : 'Schedule'}
+              </button>
+            </div>
+          </div>
+
+          {/* Page password */}
+          {visibility === 'password' && (
+            <div className="mt-3 flex items-end gap-4">
+              <div>
+                <label htmlFor="page-password" className="block text-xs font-medium text-gray-700 mb-1">
+                  Page password
+                </label>
+                <input
+                  id="page-password"
+                  type="password"
+                  value={pagePassword}
+                  onChange={(e) => setPagePassword(e.target.value)}
+                  placeholder={hasPassword ? 'Leave blank to keep current password' : 'At least 4 characters'}
+                  autoComplete="new-password"
+                  className="w-72 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <p className="text-xs text-gray-500 pb-2">
+                Changing the password locks out readers who entered the old one.
+              </p>
+            </div>
+          )}
+
+          {/* Publish schedule */}
+          {showSchedule && (
+            <div className="mt-3 flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="publish-at" className="block text-xs font-medium text-gray-700 mb-1">
+                  Publish at
+                </label>
+                <input
+                  id="publish-at"
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                  className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label htmlFor="unpublish-at" className="block text-xs font-medium text-gray-700 mb-1">
+                  Unpublish at (optional)
+                </label>
+                <input
+                  id="unpublish-at"
+                  type="datetime-local"
+                  value={unpublishAt}
+                  onChange={(e) => setUnpublishAt(e.target.value)}
+                  className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <p className="text-xs text-gray-500 pb-2">
+                Leave &quot;Publish at&quot; empty to publish immediately.
+              </p>
+            </div>
+          )}
 
           {/* Suggestions Dropdown */}
           {showSuggestions && slugSuggestions.length > 0 && (
@@ -646,6 +1035,7 @@ export default function Editor() {
             </div>
             <div className="p-4">
               <textarea
+                ref={textareaRef}
                 value={markdown}
                 onChange={(e) => setMarkdown(e.target.value)}
                 onDragEnter={handleDrag}
@@ -657,21 +1047,69 @@ export default function Editor() {
                   dragActive ? 'border-blue-500 bg-blue-50' : ''
                 }`}
               />
+              {frontmatterErrors.length > 0 && (
+                <FrontmatterErrors
+                  errors={frontmatterErrors}
+                  markdown={markdown}
+                  onSelectLine={selectLine}
+                  onDismiss={() => setFrontmatterErrors([])}
+                />
+              )}
+              {markdown && strippedHtml.length > 0 && (
+                <StrippedContentNotice stripped={strippedHtml} markdown={markdown} onSelectLine={selectLine} />
+              )}
+              {pageCss.stripped.length > 0 && (
+                <StrippedContentNotice stripped={pageCss.stripped} kind="CSS" markdown={markdown} onSelectLine={selectLine} />
+              )}
             </div>
           </div>
 
           {/* Preview Column */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-            <div className="p-4 border-b border-gray-200">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
               <h2 className="text-lg font-semibold text-gray-900">Preview</h2>
+              <div className="flex items-center space-x-2 text-sm">
+                <select
+                  value={previewTheme}
+                  onChange={(e) => setPreviewTheme(e.target.value as PageTheme | '')}
+                  className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+                  title="Preview in another theme. Set theme: in the frontmatter to use it"
+                >
+                  <option value="">Page theme ({getTheme(previewFrontmatter.theme, defaultTheme).label})</option>
+                  {Object.values(THEMES).map((option) => (
+                    <option key={option.name} value={option.name}>{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={previewMode}
+                  onChange={(e) => setPreviewMode(e.target.value as ThemeMode)}
+                  className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+                  title="Readers see the dark variant when their system is set to dark mode"
+                >
+                  <option value="system">System</option>
+                  <option value="light">Light</option>
+                  <option value="dark">Dark</option>
+                </select>
+              </div>
             </div>
-            <div className="p-4 h-full overflow-y-auto">
+            <div className="h-full overflow-y-auto">
               {markdown ? (
-                <div className="prose prose-sm max-w-none">
-                  <CustomMarkdown>{markdown}</CustomMarkdown>
-                </div>
+                <ThemedPage
+                  theme={theme}
+                  font={previewFrontmatter.font}
+                  background={previewFrontmatter.background}
+                  mode={previewMode}
+                  css={[authorCss, pageCss.css].filter(Boolean).join('\n')}
+                  className="p-4 min-h-full"
+                >
+                  <div className="prose prose-sm max-w-none">
+                    <MarkdownPreview wikiLinks={wikiLinks} onStrippedHtml={setStrippedHtml}>
+                      {markdown}
+                    </MarkdownPreview>
+                  </div>
+                </ThemedPage>
               ) : (
-                <div className="text-gray-500 italic text-center py-8">
+                <div className="px-4 py-8 text-gray-500 italic text-center">
                   Start typing in the editor to see the preview here...
                 </div>
               )}
@@ -679,6 +1117,44 @@ export default function Editor() {
           </div>
         </div>
       </div>
+
+      {/* Revision History */}
+      {showHistory && (
+        <RevisionHistory
+          slug={slug}
+          currentMarkdown={markdown}
+          loadedUpdatedAt={loadedUpdatedAt}
+          onClose={() => setShowHistory(false)}
+          onRestored={(restoredMarkdown, updatedAt, restoredVisibility) => {
+            setMarkdown(restoredMarkdown);
+            setLoadedUpdatedAt(updatedAt);
+            // The restored frontmatter may have changed the visibility
+            setVisibility(restoredVisibility);
+            setHasPassword(restoredVisibility === 'password');
+          }}
+        />
+      )}
+
+      {/* Share Links */}
+      {showShare && (
+        <SharePanel
+          slug={slug}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+
+      {/* Publish Conflict */}
+      {conflict && (
+        <ConflictDialog
+          localMarkdown={markdown}
+          serverMarkdown={conflict.markdown}
+          serverUpdatedAt={conflict.updatedAt}
+          onOverwrite={handleConflictOverwrite}
+          onDiscard={handleConflictDiscard}
+          onMerge={handleConflictMerge}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
     </ProtectedRoute>
   );
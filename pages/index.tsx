@@ -1,8 +1,12 @@
 import React, { useEffect } from 'react';
+import { GetStaticProps } from 'next';
 import { useRouter } from 'next/router';
+import type { Root } from 'hast';
 import { useAuth } from '../contexts/AuthContext';
 import CustomMarkdown from '../components/CustomMarkdown';
-import matter from 'gray-matter';
+import { compilePage } from '../lib/markdown';
+import { Frontmatter } from '../lib/frontmatter';
+import { getCodeTheme } from '../lib/themes';
 
 const landingPageMarkdown = `---
 font: sans
@@ -46,7 +50,7 @@ This is exactly how your writing will appear to readers. Clean, readable, and fo
 
 You can include **bold text**, *italic text*, [links](https://example.com), and even code:
 
-\`\`\`
+\`\`\`javascript
 function hello() {
   return "Simple, clean, yours.";
 }
@@ -58,7 +62,20 @@ That's it. No clutter, no distractions—just your words, beautifully presented.
 
 *Ready to start? [Create your first page](/editor)*`;
 
-export default function LandingPage() {
+interface LandingPageProps {
+  ast: Root;
+  frontmatter: Frontmatter;
+}
+
+// The sample page is compiled at build time, so the browser only renders it
+export const getStaticProps: GetStaticProps<LandingPageProps> = async () => {
+  const { ast, frontmatter } = compilePage(landingPageMarkdown);
+  return {
+    props: { ast, frontmatter }
+  };
+};
+
+export default function LandingPage({ ast, frontmatter }: LandingPageProps) {
   const { user, loading } = useAuth();
   const router = useRouter();
 
@@ -86,9 +103,6 @@ export default function LandingPage() {
     return null; // Will redirect to dashboard
   }
 
-  // Parse frontmatter from the markdown content
-  const { data: frontmatter, content } = matter(landingPageMarkdown);
-
   // Determine font class based on frontmatter
   const getFontClass = () => {
     switch (frontmatter.font) {
@@ -114,10 +128,11 @@ export default function LandingPage() {
     <div 
       className={`min-h-screen ${getFontClass()}`}
       style={getBackgroundStyle()}
+      data-code-theme={getCodeTheme(frontmatter.background)}
     >
       <div className="max-w-4xl mx-auto px-6 py-12">
         <div className="prose prose-lg max-w-none">
-          <CustomMarkdown>{content}</CustomMarkdown>
+          <CustomMarkdown ast={ast} />
         </div>
       </div>
     </div>
@@ -0,0 +1,61 @@
+import React from 'react';
+import { GetServerSideProps } from 'next';
+import PublishedPage from '../../components/PublishedPage';
+import { getAuthorStyle, getUsernameForUser, toPublicPageProps, PublicPageProps } from '../../lib/publicPages';
+import { withConnectedPages } from '../../lib/embeds';
+import { redeemShareToken } from '../../lib/shareLinks';
+
+export const getServerSideProps: GetServerSideProps<PublicPageProps> = async ({ params, res }) => {
+  try {
+    const token = params?.token as string;
+
+    if (!token) {
+      return {
+        notFound: true
+      };
+    }
+
+    // Every render counts as a view, so it must never be served from a cache
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('X-Robots-Tag', 'noindex');
+
+    // Share links bypass status and visibility: that's how drafts get reviewed
+    const page = await redeemShareToken(token);
+    if (!page) {
+      return {
+        notFound: true
+      };
+    }
+
+    const username = await getUsernameForUser(page.user_id);
+    const authorStyle = await getAuthorStyle(page.user_id);
+    const { props } = await withConnectedPages(toPublicPageProps(page, null, authorStyle), page, username);
+
+    return {
+      props
+    };
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return {
+      notFound: true
+    };
+  }
+};
+
+export default function SharedPage({ ast, frontmatter, pageId, gate, seo, author, links, defaultTheme, authorCss, pageCss }: PublicPageProps) {
+  return (
+    <PublishedPage
+      ast={ast}
+      frontmatter={frontmatter}
+      pageId={pageId}
+      gate={gate}
+      seo={seo}
+      author={author}
+      links={links}
+      defaultTheme={defaultTheme}
+      authorCss={authorCss}
+      pageCss={pageCss}
+    />
+  );
+}
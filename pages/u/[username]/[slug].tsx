@@ -0,0 +1,107 @@
+import React from 'react';
+import { GetStaticPaths, GetStaticProps } from 'next';
+import PublishedPage from '../../../components/PublishedPage';
+import {
+  getProfileByUsername,
+  loadPage,
+  resolveSlugRedirect,
+  toAuthorStyle,
+  toStaticPageProps,
+  PublicPageProps
+} from '../../../lib/publicPages';
+import { withConnectedPages } from '../../../lib/embeds';
+import { isPageLive } from '../../../lib/pageStatus';
+import { getRevalidateSeconds, PAGE_REVALIDATE_SECONDS } from '../../../lib/revalidate';
+import { pagePath } from '../../../lib/urls';
+
+// Pages are generated on their first request and then served statically until
+// they change (see lib/revalidate.ts)
+export const getStaticPaths: GetStaticPaths = async () => {
+  return {
+    paths: [],
+    fallback: 'blocking'
+  };
+};
+
+export const getStaticProps: GetStaticProps<PublicPageProps> = async ({ params }) => {
+  try {
+    const username = params?.username as string;
+    const slug = params?.slug as string;
+
+    if (!username || !slug) {
+      return {
+        notFound: true
+      };
+    }
+
+    // Resolve the owner first so the slug is looked up in their namespace only
+    const profile = await getProfileByUsername(username);
+    if (!profile) {
+      return {
+        notFound: true,
+        revalidate: PAGE_REVALIDATE_SECONDS
+      };
+    }
+
+    // A page that isn't live yet still decides when this URL has to be generated again
+    const page = await loadPage(profile.user_id, slug);
+    const revalidate = getRevalidateSeconds(page ? [page] : []);
+
+    if (!page || !isPageLive(page)) {
+      // The page may have been renamed; send old links to its current slug
+      const renamedPage = await resolveSlugRedirect(profile.user_id, slug);
+      if (renamedPage) {
+        return {
+          redirect: {
+            destination: pagePath(renamedPage.slug, profile.username),
+            statusCode: 301
+          },
+          revalidate
+        };
+      }
+
+      return {
+        notFound: true,
+        revalidate
+      };
+    }
+
+    // Gated pages get embedded pages and links along with their content, from /api/page-content
+    const staticProps = toStaticPageProps(page, profile.username, toAuthorStyle(profile));
+    if (staticProps.gate !== 'none') {
+      return {
+        props: staticProps,
+        revalidate
+      };
+    }
+
+    // Embedded and linked pages going live or coming down change this page too
+    const { props, connectedPages } = await withConnectedPages(staticProps, page, profile.username);
+    return {
+      props,
+      revalidate: Math.min(revalidate, getRevalidateSeconds(connectedPages))
+    };
+
+  } catch (error) {
+    // Rethrow so Next keeps serving the last good copy instead of caching a 404
+    console.error('Unexpected error:', error);
+    throw error;
+  }
+};
+
+export default function UserPage({ ast, frontmatter, pageId, gate, seo, author, links, defaultTheme, authorCss, pageCss }: PublicPageProps) {
+  return (
+    <PublishedPage
+      ast={ast}
+      frontmatter={frontmatter}
+      pageId={pageId}
+      gate={gate}
+      seo={seo}
+      author={author}
+      links={links}
+      defaultTheme={defaultTheme}
+      authorCss={authorCss}
+      pageCss={pageCss}
+    />
+  );
+}
@@ -0,0 +1,143 @@
+import React from 'react';
+import { GetStaticPaths, GetStaticProps } from 'next';
+import Link from 'next/link';
+import PageHead from '../../../../components/PageHead';
+import SearchBox from '../../../../components/SearchBox';
+import { isValidTag } from '../../../../lib/frontmatter';
+import { getProfileByUsername, getPublishedDate, getRenderedPage } from '../../../../lib/publicPages';
+import { getRevalidateSeconds, PAGE_REVALIDATE_SECONDS } from '../../../../lib/revalidate';
+import { buildListingSeo, PageSeo, SITE_NAME } from '../../../../lib/seo';
+import { loadTaggedPages } from '../../../../lib/tags';
+import { pagePath, tagPath } from '../../../../lib/urls';
+import { isPageListed } from '../../../../lib/visibility';
+
+interface TaggedPage {
+  path: string;
+  title: string;
+  description: string | null;
+  publishedAt: string;
+}
+
+interface TagPageProps {
+  username: string;
+  tag: string;
+  pages: TaggedPage[];
+  seo: PageSeo;
+}
+
+// Tag pages are generated on their first request, like the pages they list,
+// and regenerated whenever one of those pages changes (see lib/revalidate.ts)
+export const getStaticPaths: GetStaticPaths = async () => {
+  return {
+    paths: [],
+    fallback: 'blocking'
+  };
+};
+
+export const getStaticProps: GetStaticProps<TagPageProps> = async ({ params }) => {
+  try {
+    const username = params?.username as string;
+    const tag = (params?.tag as string || '').toLowerCase();
+
+    if (!username || !isValidTag(tag)) {
+      return {
+        notFound: true
+      };
+    }
+
+    const profile = await getProfileByUsername(username);
+    if (!profile || !profile.username) {
+      return {
+        notFound: true,
+        revalidate: PAGE_REVALIDATE_SECONDS
+      };
+    }
+
+    // Pages that aren't live yet still decide when this tag page has to be generated again
+    const taggedPages = await loadTaggedPages(profile.user_id, tag);
+    const revalidate = getRevalidateSeconds(taggedPages);
+
+    const pages = taggedPages
+      .filter(page => isPageListed(page))
+      .sort((a, b) => Date.parse(getPublishedDate(b)) - Date.parse(getPublishedDate(a)))
+      .map((page) => {
+        const rendered = getRenderedPage(page);
+        return {
+          path: pagePath(page.slug, profile.username),
+          title: rendered.title || page.slug,
+          description: rendered.description,
+          publishedAt: new Date(getPublishedDate(page)).toISOString()
+        };
+      });
+
+    if (pages.length === 0) {
+      return {
+        notFound: true,
+        revalidate
+      };
+    }
+
+    return {
+      props: {
+        username: profile.username,
+        tag,
+        pages,
+        seo: buildListingSeo(
+          `#${tag} · ${profile.username}`,
+          `Pages by ${profile.username} tagged #${tag} on ${SITE_NAME}`,
+          tagPath(profile.username, tag)
+        )
+      },
+      revalidate
+    };
+
+  } catch (error) {
+    // Rethrow so Next keeps serving the last good copy instead of caching a 404
+    console.error('Unexpected error:', error);
+    throw error;
+  }
+};
+
+// Dates are formatted in UTC so the server and the browser render the same text
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
+export default function TagPage({ username, tag, pages, seo }: TagPageProps) {
+  return (
+    <div className="min-h-screen bg-white font-sans">
+      <PageHead seo={seo} />
+      <div className="max-w-4xl mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm text-gray-500">@{username}</p>
+          <div className="w-full max-w-xs">
+            <SearchBox username={username} placeholder={`Search @${username}`} />
+          </div>
+        </div>
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">#{tag}</h1>
+        <p className="text-gray-600 mb-10">
+          {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+        </p>
+
+        <ul className="space-y-8">
+          {pages.map((page) => (
+            <li key={page.path}>
+              <Link href={page.path} className="text-2xl font-semibold text-blue-700 hover:text-blue-800">
+                {page.title}
+              </Link>
+              <p className="text-sm text-gray-500 mt-1">{formatDate(page.publishedAt)}</p>
+              {page.description && (
+                <p className="text-gray-700 mt-2 leading-relaxed">{page.description}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
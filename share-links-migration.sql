@@ -0,0 +1,44 @@
+-- Add share links
+-- A share link shows a single page to anyone holding its token, whatever the
+-- page's status or visibility, until it is revoked, expires or runs out of views
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id SERIAL PRIMARY KEY,
+  page_id INTEGER NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  max_views INTEGER DEFAULT NULL,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT positive_max_views CHECK (max_views IS NULL OR max_views > 0)
+);
+
+-- Add index for listing the links of a page
+CREATE INDEX IF NOT EXISTS idx_share_links_page_id ON share_links(page_id, created_at DESC);
+
+COMMENT ON COLUMN share_links.token IS 'Random token; share URLs carry it signed with PAGE_SIGNING_SECRET';
+COMMENT ON COLUMN share_links.max_views IS 'Number of views after which the link stops working (NULL for unlimited)';
+
+-- Links are only managed through /api/share-links (service role). No policies,
+-- so the public key can't point a link at another page or reset its views
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Count a view of a share link, but only while it is still usable. Doing the
+-- check and the increment in one statement keeps concurrent views from going
+-- over max_views. Returns the page ID, or nothing when the link is not usable
+CREATE OR REPLACE FUNCTION use_share_link(link_token TEXT)
+RETURNS INTEGER AS $$
+  UPDATE share_links
+  SET view_count = view_count + 1
+  WHERE token = link_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW())
+    AND (max_views IS NULL OR view_count < max_views)
+  RETURNING page_id;
+$$ LANGUAGE sql;
+
+-- Only the service role counts views
+REVOKE EXECUTE ON FUNCTION use_share_link(TEXT) FROM PUBLIC, anon, authenticated;
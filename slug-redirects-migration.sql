@@ -0,0 +1,21 @@
+-- Add permanent redirects for renamed pages
+-- Renaming a page through PATCH /api/pages records its old slug here so
+-- links that were already shared keep working
+
+CREATE TABLE IF NOT EXISTS slug_redirects (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  old_slug TEXT NOT NULL,
+  page_id INTEGER NOT NULL REFERENCES pages(id) ON DELETE CASCADE, -- Redirects follow the page, so renaming twice needs no chain
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_user_old_slug UNIQUE (user_id, old_slug),
+  CONSTRAINT valid_old_slug CHECK (old_slug ~ '^[a-zA-Z0-9_-]+$' AND LENGTH(old_slug) > 0)
+);
+
+-- Add index for resolving flat legacy URLs, which don't know the owner
+CREATE INDEX IF NOT EXISTS idx_slug_redirects_old_slug ON slug_redirects(old_slug);
+CREATE INDEX IF NOT EXISTS idx_slug_redirects_page_id ON slug_redirects(page_id);
+
+-- Only the API routes read and write redirects; no policies for the public key
+ALTER TABLE slug_redirects ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,19 @@
+-- Add usernames so public pages can live under /u/[username]/[slug]
+-- Slugs are only unique per user (see user-auth-migration.sql), so the
+-- username is what tells two users' "about" pages apart
+
+CREATE TABLE IF NOT EXISTS profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Lowercase letters, numbers and inner hyphens, 1-32 characters
+  CONSTRAINT valid_username CHECK (username ~ '^[a-z0-9]([a-z0-9-]{0,30}[a-z0-9])?$')
+);
+
+COMMENT ON TABLE profiles IS 'Public identity of a user, used for namespaced page URLs';
+
+-- Usernames are only changed through /api/profile (service role). No policies,
+-- so the public key can't take over someone else's /u/[username] URLs
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;